@@ -1,12 +1,23 @@
 export * from "./data-structures.js";
+export { Aggregate } from "./neisan-mongo/aggregate.js";
 export {
+	ChangeStream,
+	type HasManyRef,
+	type HasOneRef,
+	hasMany,
+	hasOne,
+	InverseRelationship,
 	MongoClient,
-	// type ToManyRef,
-	// ToManyRelationship,
-	// ToManySchema,
+	type ToManyRef,
+	ToManyRelationship,
+	ToManySchema,
 	type ToOneRef,
 	ToOneRelationship,
 	ToOneSchema,
+	Transaction,
+	toMany,
+	toOne,
 } from "./neisan-mongo/client.js";
 export { Model } from "./neisan-mongo/model.js";
+export { Query, where } from "./neisan-mongo/query.js";
 export type * from "./types.js";
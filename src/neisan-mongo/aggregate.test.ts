@@ -0,0 +1,144 @@
+import { expect, test } from "bun:test";
+import { ObjectId } from "mongodb";
+import * as z from "zod/v4";
+import type { Data } from "../types";
+import { Aggregate } from "./aggregate";
+import { where } from "./query";
+
+const OrderSchema = z.object({
+	email: z.email(),
+	total: z.number(),
+	placed: z.date(),
+	tags: z.set(z.string()).default(new Set()),
+	items: z.array(z.object({ sku: z.string(), quantity: z.number() })),
+});
+type Order = z.infer<typeof OrderSchema> & { _id: ObjectId };
+
+const UserSchema = z.object({ email: z.email(), name: z.string() });
+const Users = { collectionName: "users", schema: UserSchema };
+
+test("Aggregate Stages", () => {
+	const orders = new Aggregate<Order>();
+	const placed = new Date();
+	const order: Order = {
+		_id: new ObjectId(),
+		email: "email@email.com",
+		total: 10,
+		placed,
+		tags: new Set(),
+		items: [],
+	};
+
+	expect(orders.match({ email: "email@email.com" }).pipeline).toEqual([
+		{ $match: { email: "email@email.com" } },
+	]);
+	expect(orders.match({ tags: new Set(["gift"]) }).pipeline).toEqual([
+		{ $match: { tags: { _JSSet: ["gift"] } } },
+	]);
+	expect(
+		orders.match(where<typeof OrderSchema>().gte("placed", placed)).pipeline,
+	).toEqual([{ $match: { placed: { $gte: placed } } }]);
+
+	const totals = orders
+		.sort({ placed: -1 })
+		.group({ _id: "$email", total: { $sum: "$total" }, last: { $first: "$placed" } });
+	expect(totals.pipeline).toEqual([
+		{ $sort: { placed: -1 } },
+		{ $group: { _id: "$email", total: { $sum: "$total" }, last: { $first: "$placed" } } },
+	]);
+	const total: Awaited<ReturnType<typeof totals.toArray>> = [
+		{ _id: "email@email.com", total: 10, last: placed },
+	];
+	expect(total).toHaveLength(1);
+
+	const items = orders.unwind("items").project({ sku: "$items.sku", _id: 0 });
+	expect(items.pipeline).toEqual([
+		{ $unwind: "$items" },
+		{ $project: { sku: "$items.sku", _id: 0 } },
+	]);
+	expect(orders.unwind("items", { preserveNullAndEmptyArrays: true }).pipeline).toEqual([
+		{ $unwind: { path: "$items", preserveNullAndEmptyArrays: true } },
+	]);
+
+	const joined = orders.lookup({
+		from: Users,
+		localField: "email",
+		foreignField: "email",
+		as: "buyers",
+	});
+	expect(joined.pipeline).toEqual([
+		{
+			$lookup: {
+				from: "users",
+				localField: "email",
+				foreignField: "email",
+				as: "buyers",
+			},
+		},
+	]);
+	const buyers: Awaited<ReturnType<typeof joined.toArray>> = [
+		{ ...order, buyers: [{ _id: order._id, email: order.email, name: "name" }] },
+	];
+	expect(buyers).toHaveLength(1);
+
+	const emails = orders.project({ email: 1, _id: 0 });
+	const email: Awaited<ReturnType<typeof emails.toArray>> = [
+		{ email: "email@email.com" },
+	];
+	expect(email).toHaveLength(1);
+
+	expect(orders.pipeline).toEqual([]);
+});
+
+test("Aggregate Facets", () => {
+	const stats = new Aggregate<Order>().facet({
+		recent: (orders) => orders.sort({ placed: -1 }),
+		totals: (orders) => orders.group({ _id: null, total: { $sum: "$total" } }),
+	});
+
+	expect(stats.pipeline).toEqual([
+		{
+			$facet: {
+				recent: [{ $sort: { placed: -1 } }],
+				totals: [{ $group: { _id: null, total: { $sum: "$total" } } }],
+			},
+		},
+	]);
+	const result: Awaited<ReturnType<typeof stats.toArray>> = [
+		{ recent: [], totals: [{ _id: null, total: 0 }] },
+	];
+	expect(result).toHaveLength(1);
+});
+
+test("Aggregate Without Collection", async () => {
+	await expect(new Aggregate<Order>().toArray()).rejects.toThrow(
+		"Aggregate has no collection to run on",
+	);
+});
+
+test("Aggregate Hydration", async () => {
+	class OrderModel {
+		constructor(data: Data) {
+			Object.assign(this, data);
+		}
+	}
+	const documents = [{ _id: new ObjectId(), email: "email@email.com", total: 10 }];
+	const hydrated: Array<boolean> = [];
+	const source = {
+		collection: {
+			aggregate: () => Object.assign([...documents], { close: async () => {} }),
+		},
+		hydrate: (model: new (data: Data) => object, document: Data, projected: boolean) => {
+			hydrated.push(projected);
+			return new model(document);
+		},
+	} as unknown as ConstructorParameters<typeof Aggregate>[0];
+
+	// stages added after `as` still yield models, upgraded unless they reshape documents
+	const orders = new Aggregate<Order>(source).as(OrderModel);
+	const matched = await orders.match({ email: "email@email.com" }).toArray();
+	expect(matched?.[0]).toBeInstanceOf(OrderModel);
+	const projected = await orders.project({ email: 1 }).toArray();
+	expect(projected?.[0]).toBeInstanceOf(OrderModel);
+	expect(hydrated).toEqual([false, true]);
+});
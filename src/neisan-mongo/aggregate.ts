@@ -0,0 +1,314 @@
+import type mongo from "mongodb";
+import type z from "zod/v4";
+import type { Data } from "../types.js";
+import { decode, encode } from "../utils.js";
+import { Query } from "./query.js";
+
+type Element<T> = T extends ReadonlyArray<infer E> ? E : never;
+type ArrayKey<T> = Extract<
+	{
+		[K in keyof T]-?: NonNullable<T[K]> extends ReadonlyArray<unknown> ? K : never;
+	}[keyof T],
+	string
+>;
+type FieldPath<T> = `$${Extract<keyof T, string>}`;
+
+// the type of an expression: `$key` references a field, objects are resolved by key
+type Resolve<T, E> = E extends `$${infer K}`
+	? K extends keyof T
+		? T[K]
+		: unknown
+	: E extends null | number | boolean
+		? E
+		: E extends Record<string, unknown>
+			? Extract<keyof E, `$${string}`> extends never
+				? { -readonly [K in keyof E]: Resolve<T, E[K]> }
+				: unknown
+			: unknown;
+
+type Accumulator<T> =
+	| { $sum: FieldPath<T> | number }
+	| { $avg: FieldPath<T> }
+	| { $count: Record<string, never> }
+	| { $min: FieldPath<T> }
+	| { $max: FieldPath<T> }
+	| { $first: FieldPath<T> }
+	| { $last: FieldPath<T> }
+	| { $push: FieldPath<T> }
+	| { $addToSet: FieldPath<T> };
+// each accumulator has a single operator, so its operand is the value of its only key
+type Accumulated<T, A> = A extends
+	| { $sum: unknown }
+	| { $avg: unknown }
+	| { $count: unknown }
+	? number
+	: A extends { $push: unknown } | { $addToSet: unknown }
+		? Array<Resolve<T, A[keyof A]>>
+		: A extends
+					| { $min: unknown }
+					| { $max: unknown }
+					| { $first: unknown }
+					| { $last: unknown }
+			? Resolve<T, A[keyof A]>
+			: unknown;
+
+export type GroupStage = { _id: unknown } & { [key: string]: unknown };
+type Grouped<T, G extends GroupStage> = { _id: Resolve<T, G["_id"]> } & {
+	-readonly [K in Exclude<keyof G, "_id">]: Accumulated<T, G[K]>;
+};
+
+export type ProjectStage<T> = { [K in Extract<keyof T, string>]?: 0 | 1 | boolean } & {
+	[key: string]: unknown;
+};
+type Projected<T, P> = Exclude<P[keyof P], 0 | false> extends never
+	? Omit<T, keyof P>
+	: {
+			-readonly [K in keyof P as P[K] extends 0 | false ? never : K]: K extends keyof T
+				? T[K]
+				: Resolve<T, P[K]>;
+		} & (P extends { _id: 0 | false }
+			? unknown
+			: "_id" extends keyof T
+				? { _id: T["_id"] }
+				: unknown);
+
+type Lookup<As extends string, Foreign> = { [K in As]: Array<Foreign> };
+type LookupSource = string | { collectionName: string; schema: z.ZodObject };
+type LookupDocument<From> = From extends { schema: infer S extends z.ZodObject }
+	? z.infer<S> & { _id: mongo.ObjectId }
+	: Data;
+
+type Unwound<T, K extends keyof T, Preserve extends boolean> = Omit<T, K> & {
+	[Key in K]: Preserve extends true
+		? Element<NonNullable<T[K]>> | null
+		: Element<NonNullable<T[K]>>;
+};
+
+type Facets<T> = Record<string, (stage: Aggregate<T>) => Aggregate<any>>;
+type Faceted<F> = {
+	-readonly [K in keyof F]: F[K] extends (...args: Array<never>) => Aggregate<infer R>
+		? Array<R>
+		: never;
+};
+
+type Source = {
+	collection: mongo.Collection;
+	session?: mongo.ClientSession | undefined;
+	/** Hydrates a result into a model, the way the collection hydrates the models it reads. */
+	hydrate?: (
+		model: new (data: Data) => object,
+		document: Data,
+		projected: boolean,
+	) => object;
+};
+// the results of a pipeline: its documents, or the models `as` hydrates them into
+type Results<T, M> = [M] extends [never] ? T : M;
+// stages that keep documents whole, so that they are hydrated as stored documents
+const PRESERVING = new Set(["$match", "$sort", "$skip", "$limit"]);
+
+/**
+ * An aggregation pipeline over a collection, whose output type is inferred from its stages.
+ * Stages return a new `Aggregate`, leaving this one unchanged.
+ */
+export class Aggregate<T, M extends object = never> {
+	readonly pipeline!: Array<Data>;
+	readonly #source: Source | undefined;
+	readonly #options: mongo.AggregateOptions;
+	readonly #model: (new (data: Data) => M) | undefined;
+
+	constructor(
+		source?: Source,
+		pipeline: Array<Data> = [],
+		options: mongo.AggregateOptions = {},
+		model?: new (data: Data) => M,
+	) {
+		Object.defineProperty(this, "pipeline", {
+			writable: false,
+			configurable: false,
+			enumerable: true,
+			value: pipeline,
+		});
+		this.#source = source;
+		this.#options = options;
+		this.#model = model;
+	}
+
+	/**
+	 * Decodes and hydrates the results of this pipeline into models of `model`.
+	 * @param model {new (data: Data) => I} The model class to hydrate results into.
+	 * @return {Aggregate<T, I>} A new `Aggregate` yielding models.
+	 * @note Stages added after `as` still yield models, hydrated from the final documents.
+	 * @note
+	 * Models of the collection are hydrated as its reads are: bound to its session, and
+	 * upgraded to its schema version unless a stage other than `$match`, `$sort`, `$skip`
+	 * or `$limit` reshapes the documents.
+	 * @example
+	 * const active = await Users.aggregate()
+	 *     .match({ attempts: 0 })
+	 *     .as(UserModel)
+	 *     .toArray();
+	 */
+	as<I extends object>(model: new (data: Data) => I): Aggregate<T, I> {
+		return new Aggregate(this.#source, this.pipeline, this.#options, model);
+	}
+
+	/**
+	 * Processes the documents in separate pipelines, outputting a single document
+	 * with the results of each pipeline.
+	 * @param facets {Record<string, (stage: Aggregate<T>) => Aggregate<any>>} The pipelines, by key.
+	 * @example
+	 * const [stats] = await Orders.aggregate()
+	 *     .facet({
+	 *         recent: (orders) => orders.sort({ placed: -1 }),
+	 *         totals: (orders) => orders.group({ _id: null, total: { $sum: "$total" } }),
+	 *     })
+	 *     .toArray();
+	 */
+	facet<const F extends Facets<T>>(facets: F): Aggregate<Faceted<F>, M> {
+		const stage = Object.fromEntries(
+			Object.entries(facets).map(([key, build]) => [
+				key,
+				build(new Aggregate<T>()).pipeline,
+			]),
+		);
+		return this.#stage({ $facet: stage });
+	}
+
+	/**
+	 * Groups documents by the `_id` expression, computing each other key with an accumulator.
+	 * @param group {GroupStage} The `_id` expression and accumulators.
+	 * @example
+	 * const totals = await Orders.aggregate()
+	 *     .group({ _id: "$email", total: { $sum: "$total" }, orders: { $count: {} } })
+	 *     .toArray();
+	 */
+	group<const G extends GroupStage>(
+		group: G & { [K in Exclude<keyof G, "_id">]: Accumulator<T> },
+	): Aggregate<Grouped<T, G>, M> {
+		return this.#stage({ $group: group });
+	}
+
+	/**
+	 * Joins the documents of another collection whose `foreignField` equals `localField`.
+	 * @param lookup The collection, or its name, to join, the fields to match, and the key to output.
+	 * @example
+	 * const users = await Users.aggregate()
+	 *     .lookup({ from: Posts, localField: "_id", foreignField: "author", as: "posts" })
+	 *     .toArray();
+	 */
+	lookup<const From extends LookupSource, const As extends string>(lookup: {
+		from: From;
+		localField: Extract<keyof T, string>;
+		foreignField: string;
+		as: As;
+	}): Aggregate<Omit<T, As> & Lookup<As, LookupDocument<From>>, M> {
+		const { from, ...rest } = lookup;
+		return this.#stage({
+			$lookup: { from: typeof from === "string" ? from : from.collectionName, ...rest },
+		});
+	}
+
+	/**
+	 * Filters the documents to those matching the filter or query.
+	 * @param filter {Data | Query<Omit<T, "_id">>} The filter or query to match.
+	 * @example
+	 * const locked = Users.aggregate().match(where<UserSchema>().gte("attempts", 3));
+	 */
+	match(filter: Data | Query<Omit<T, "_id">>): Aggregate<T, M> {
+		return this.#stage({
+			$match: filter instanceof Query ? filter.filter : encode(filter),
+		});
+	}
+
+	/**
+	 * Includes, excludes, or computes the keys of the documents.
+	 * @param project {ProjectStage<T>} The keys to include (`1`), exclude (`0`), or compute.
+	 * @example
+	 * const emails = Users.aggregate().project({ email: 1, _id: 0 });
+	 */
+	project<const P extends ProjectStage<T>>(project: P): Aggregate<Projected<T, P>, M> {
+		return this.#stage({ $project: project });
+	}
+
+	/**
+	 * Sorts the documents by the keys.
+	 * @param sort The key(s) and direction(s) to sort by.
+	 * @note Use `1` to sort in ascending (lowest first) order, and `-1` to sort in descending (highest first) order.
+	 * @example
+	 * const recent = Orders.aggregate().sort({ placed: -1 });
+	 */
+	sort(sort: { [K in Extract<keyof T, string>]?: -1 | 1 }): Aggregate<T, M> {
+		return this.#stage({ $sort: sort });
+	}
+
+	/**
+	 * Outputs a document for each element of the array at `path`.
+	 * @param path The key of the array to unwind.
+	 * @param options Whether to keep documents whose array is missing or empty, with `null`.
+	 * @example
+	 * const items = Orders.aggregate().unwind("items");
+	 */
+	unwind<K extends ArrayKey<T>, Preserve extends boolean = false>(
+		path: K,
+		options?: { preserveNullAndEmptyArrays?: Preserve },
+	): Aggregate<Unwound<T, K, Preserve>, M> {
+		if (!options?.preserveNullAndEmptyArrays) return this.#stage({ $unwind: `$${path}` });
+		return this.#stage({
+			$unwind: { path: `$${path}`, preserveNullAndEmptyArrays: true },
+		});
+	}
+
+	/**
+	 * @return {AsyncGenerator<Results<T, M>, void, unknown>}
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<Results<T, M>, void, unknown> {
+		if (!this.#source) throw new Error("Aggregate has no collection to run on");
+		const { collection, session, hydrate } = this.#source;
+		const cursor = collection.aggregate(
+			this.pipeline,
+			session ? { ...this.#options, session } : this.#options,
+		);
+		const projected = this.pipeline.some(
+			(stage) => !PRESERVING.has(Object.keys(stage)[0] ?? ""),
+		);
+		try {
+			for await (const document of cursor) {
+				const model = this.#model;
+				if (!model) {
+					yield decode(document) as Results<T, M>;
+				} else if (hydrate) {
+					yield hydrate(model, document, projected) as Results<T, M>;
+				} else {
+					yield new model(decode(document)) as Results<T, M>;
+				}
+			}
+		} finally {
+			await cursor.close();
+		}
+	}
+
+	/**
+	 * Returns an array of the results of this pipeline.
+	 * @return {Promise<Array<Results<T, M>> | null>} The results, or `null` if there are none.
+	 * @example
+	 * const totals = await Orders.aggregate()
+	 *     .group({ _id: "$email", total: { $sum: "$total" } })
+	 *     .toArray();
+	 */
+	async toArray(): Promise<Array<Results<T, M>> | null> {
+		const results: Array<Results<T, M>> = [];
+		for await (const result of this) {
+			results.push(result);
+		}
+		return results.length > 0 ? results : null;
+	}
+
+	#stage<O>(stage: Data): Aggregate<O, M> {
+		return new Aggregate<O, M>(
+			this.#source,
+			[...this.pipeline, stage],
+			this.#options,
+			this.#model,
+		);
+	}
+}
@@ -1,11 +1,18 @@
-import { expect, test } from "bun:test";
+import { expect, spyOn, test } from "bun:test";
 import * as mongo from "mongodb";
 import * as z from "zod/v4";
-import type { Data } from "../types";
+import type { Data, Migration, Page, PaginationOptions } from "../types";
 import {
+	type HasManyRef,
+	type HasOneRef,
+	hasMany,
+	hasOne,
 	MongoClient,
+	type ToManyRef,
+	ToManySchema,
 	type ToOneRef,
 	ToOneSchema,
+	toMany,
 	toOne,
 } from "./client";
 import { Model } from "./model";
@@ -18,7 +25,6 @@ const UserSchema = z.object({
 	attempts: z.number().min(0, "Must Be Greater Than or Equal To 0").default(0),
 	visits: z.coerce.bigint().default(0n),
 	teams: z.set(z.number()).default(new Set()),
-	edited: z.coerce.date().default(() => new Date()),
 });
 type UserSchema = typeof UserSchema;
 
@@ -28,7 +34,10 @@ class UserModel extends Model<UserSchema> {
 	attempts: number;
 	visits: bigint;
 	teams: Set<number>;
-	edited: Date;
+	@hasMany(() => Posts, "author")
+	posts: HasManyRef<typeof Posts> = [];
+	@hasOne(() => Posts, "author")
+	latest: HasOneRef<typeof Posts> = null;
 
 	constructor(data: Data) {
 		super();
@@ -47,6 +56,7 @@ class UserModel extends Model<UserSchema> {
 const PostSchema = z.object({
 	title: z.string(),
 	author: ToOneSchema<UserSchema>(UserModel),
+	readers: ToManySchema<UserSchema>(UserModel),
 });
 type PostSchema = typeof PostSchema;
 
@@ -59,12 +69,15 @@ const Users = db.collection({
 	schema: UserSchema,
 	model: UserModel,
 	uniques: ["email"],
+	timestamps: true,
 });
 
 class PostModel extends Model<PostSchema> {
 	title!: string;
 	@toOne(Users)
 	author: ToOneRef<typeof Users> = null;
+	@toMany(Users)
+	readers: ToManyRef<typeof Users> = [];
 
 	constructor(data: Data) {
 		super();
@@ -78,6 +91,29 @@ const Posts = db.collection({
 	model: PostModel,
 });
 
+const CommentSchema = z.object({
+	body: z.string(),
+	post: ToOneSchema<PostSchema>(PostModel),
+});
+type CommentSchema = typeof CommentSchema;
+
+class CommentModel extends Model<CommentSchema> {
+	body!: string;
+	@toOne(Posts)
+	post: ToOneRef<typeof Posts> = null;
+
+	constructor(data: Data) {
+		super();
+		this.hydrate(data);
+	}
+}
+
+const Comments = db.collection({
+	name: "comments",
+	schema: CommentSchema,
+	model: CommentModel,
+});
+
 test("Collection Usage", async () => {
 	await Users.drop();
 	await Posts.drop();
@@ -123,7 +159,7 @@ test("Collection Usage", async () => {
 
 	const deleted = await Users.deleteOne(updated.model._id);
 	expect(deleted).toBeInstanceOf(UserModel);
-	if (deleted === null) return;
+	if (!(deleted instanceof UserModel)) return;
 	expect(deleted.email).toEqual("newemail@email.com");
 
 	for (let i = 1; i < 6; i++) {
@@ -145,6 +181,15 @@ test("Collection Usage", async () => {
 	expect(foundMany).toBeArrayOfSize(5);
 	if (foundMany === null) return;
 
+	const queried = await Users.findMany(
+		Users.where().or(
+			Users.where().eq("email", "email1@email.com"),
+			Users.where().regex("email", /^email[45]@/),
+		),
+	);
+	expect(queried).toBeArrayOfSize(3);
+	expect(await Users.count(Users.where().gte("attempts", 1))).toEqual(0);
+
 	const updatedMany = await Users.updateMany({}, (user) => {
 		user.email = `new${user.email}`;
 	});
@@ -152,6 +197,18 @@ test("Collection Usage", async () => {
 	if (!updatedMany.acknowledged) return;
 	expect(updatedMany.models).toBeArrayOfSize(5);
 
+	const counted = await Users.updateMany(
+		{},
+		(user) => {
+			user.attempts++;
+		},
+		{ batchSize: 2, returnModels: false },
+	);
+	expect(counted.acknowledged).toBeTrue();
+	if (!counted.acknowledged) return;
+	expect(counted.count).toEqual(5);
+	expect(await Users.count(Users.where().eq("attempts", 1))).toEqual(5);
+
 	for (let i = 1; i < 6; i++) {
 		const found = await Users.findOne({ email: `newemail${i}@email.com` });
 		expect(found).toBeInstanceOf(UserModel);
@@ -164,8 +221,1307 @@ test("Collection Usage", async () => {
 		expect(email).toEndWith("@email.com");
 	});
 
-	for (let i = 1; i < 6; i++) {
+	for (let i = 1; i < 4; i++) {
 		const found = await Users.deleteOne({ email: `newemail${i}@email.com` });
 		expect(found).toBeInstanceOf(UserModel);
 	}
+
+	const deletedMany = await Users.deleteMany((user) => user.email.startsWith("new"), {
+		batchSize: 1,
+	});
+	expect(deletedMany).toBeArrayOfSize(2);
+	expect(await Users.deleteMany({}, { returnModels: false })).toEqual(0);
+});
+
+test("ToMany Relationships", async () => {
+	await Users.drop();
+	await Posts.drop();
+	const users = await Users.insertMany(
+		[1, 2, 3].map((i) => ({ email: `reader${i}@email.com`, password: "$omePassw0rd" })),
+	);
+	expect(users.acknowledged).toBeTrue();
+	const [first, second, third] = users.results.map((result) =>
+		result.acknowledged ? result.model : null,
+	);
+	if (!first || !second || !third) return;
+
+	const inserted = await Posts.insert({
+		title: "A Post",
+		author: first._id,
+		readers: [second._id, first._id],
+	});
+	const other = await Posts.insert({ title: "Another Post", author: second._id });
+	expect(inserted.acknowledged).toBeTrue();
+	expect(other.acknowledged).toBeTrue();
+	if (!inserted.acknowledged || !other.acknowledged) return;
+	expect(inserted.model.readers).toEqual([second._id, first._id]);
+	expect(other.model.readers).toEqual([]);
+	expect(other.model.author).toEqual(second._id as any);
+	expect(inserted.model.author).toEqual(first._id as any);
+
+	const readers = await inserted.model.populate("readers");
+	expect(readers).toBeArrayOfSize(2);
+	expect(inserted.model.readers[0]).toBeInstanceOf(UserModel);
+	expect(inserted.model.readers.map((reader) => (reader as UserModel)._id)).toEqual([
+		second._id,
+		first._id,
+	]);
+	expect(inserted.model.toJSON().readers).toEqual([second._id, first._id]);
+
+	const pushed = await Posts.updateOne(inserted.model._id, (post) => {
+		post.push("readers", third, first);
+	});
+	expect(pushed.acknowledged).toBeTrue();
+	if (!pushed.acknowledged) return;
+	expect(pushed.model.readers).toEqual([second._id, first._id, third._id]);
+
+	const removed = await Posts.updateOne(inserted.model._id, (post) => {
+		post.remove("readers", second._id);
+	});
+	expect(removed.acknowledged).toBeTrue();
+	if (!removed.acknowledged) return;
+	expect(removed.model.readers).toEqual([first._id, third._id]);
+
+	const assigned = await Posts.updateOne(inserted.model._id, { readers: [third] });
+	expect(assigned.acknowledged).toBeTrue();
+	if (!assigned.acknowledged) return;
+	expect(assigned.model.readers).toEqual([third._id]);
+});
+
+test("Batched Populate", async () => {
+	await Users.drop();
+	await Posts.drop();
+	const users = await Users.insertMany(
+		[1, 2].map((i) => ({ email: `author${i}@email.com`, password: "$omePassw0rd" })),
+	);
+	const [first, second] = users.results.map((result) =>
+		result.acknowledged ? result.model : null,
+	);
+	if (!first || !second) return;
+
+	await Posts.insertMany([
+		{ title: "First", author: first._id, readers: [second._id, first._id] },
+		{ title: "Second", author: second._id },
+		{ title: "Third", author: first._id, readers: [new mongo.ObjectId(), second._id] },
+	]);
+
+	// both relationships to users are fetched with one query, rather than one per post
+	const postQueries = spyOn(Posts.collection, "find");
+	const userQueries = spyOn(Users.collection, "find");
+	const posts = await Posts.find()
+		.populate(["author", "readers"])
+		.sort({ title: 1 })
+		.toArray();
+	expect(postQueries).toHaveBeenCalledTimes(1);
+	expect(userQueries).toHaveBeenCalledTimes(1);
+	postQueries.mockRestore();
+	userQueries.mockRestore();
+	expect(posts).toBeArrayOfSize(3);
+	if (!posts) return;
+	for (const post of posts) expect(post.author).toBeInstanceOf(UserModel);
+	expect((posts[0]?.author as UserModel)._id).toEqual(first._id);
+	expect((posts[1]?.author as UserModel)._id).toEqual(second._id);
+	expect(posts[0]?.readers.map((reader) => (reader as UserModel)._id)).toEqual([
+		second._id,
+		first._id,
+	]);
+	expect(posts[1]?.readers).toEqual([]);
+	expect(posts[2]?.readers.map((reader) => (reader as UserModel)._id)).toEqual([
+		second._id,
+	]);
+
+	const limited = await Posts.find({}, { populate: "author", limit: 1 }).toArray();
+	expect(limited).toBeArrayOfSize(1);
+	expect(limited?.[0]?.author).toBeInstanceOf(UserModel);
+});
+
+test("Nested Populate", async () => {
+	await Users.drop();
+	await Posts.drop();
+	await Comments.drop();
+	const users = await Users.insertMany(
+		[1, 2, 3].map((i) => ({ email: `nested${i}@email.com`, password: "$omePassw0rd" })),
+	);
+	const [first, second, third] = users.results.map((result) =>
+		result.acknowledged ? result.model : null,
+	);
+	if (!first || !second || !third) return;
+
+	const post = await Posts.insert({
+		title: "A Post",
+		author: first._id,
+		readers: [second._id, third._id, first._id],
+	});
+	expect(post.acknowledged).toBeTrue();
+	if (!post.acknowledged) return;
+	await Comments.insert({ body: "A Comment", post: post.model._id });
+
+	const comment = await Comments.findOne(
+		{ body: "A Comment" },
+		{ populate: { path: "post.author", select: ["email"] } },
+	);
+	expect(comment?.post).toBeInstanceOf(PostModel);
+	const author = (comment?.post as PostModel).author;
+	expect(author).toBeInstanceOf(UserModel);
+	expect((author as UserModel).email).toEqual("nested1@email.com");
+	expect((author as UserModel).password).toBeUndefined();
+
+	const found = await Posts.findOne(post.model._id, {
+		populate: { path: "readers", sort: { email: -1 }, limit: 2 },
+	});
+	expect(found?.readers.map((reader) => (reader as UserModel).email)).toEqual([
+		"nested3@email.com",
+		"nested2@email.com",
+	]);
+	expect(found?.toJSON().readers).toEqual([second._id, third._id, first._id]);
+
+	const model = await Comments.findOne({ body: "A Comment" });
+	await model?.populate("post.readers", { select: ["email"], limit: 1 });
+	expect((model?.post as PostModel).readers).toBeArrayOfSize(1);
+});
+
+test("Inverse Relationships", async () => {
+	await Users.drop();
+	await Posts.drop();
+	const users = await Users.insertMany(
+		[1, 2].map((i) => ({ email: `inverse${i}@email.com`, password: "$omePassw0rd" })),
+	);
+	const [first, second] = users.results.map((result) =>
+		result.acknowledged ? result.model : null,
+	);
+	if (!first || !second) return;
+	expect(first.toJSON()).not.toHaveProperty("posts");
+
+	await Posts.insertMany([
+		{ title: "First", author: first._id },
+		{ title: "Second", author: first._id },
+		{ title: "Third", author: second._id },
+	]);
+
+	const posts = await first.populate("posts", { sort: { title: 1 } });
+	expect(posts.map((post) => post.title)).toEqual(["First", "Second"]);
+	expect(first.posts).toBe(posts);
+	expect(await second.populate("latest")).toBeInstanceOf(PostModel);
+	expect((second.latest as PostModel).title).toEqual("Third");
+
+	const found = await Posts.find().populate("author.posts").toArray();
+	expect(found?.map((post) => (post.author as UserModel).posts.length)).toEqual([
+		2, 2, 1,
+	]);
+
+	const updated = await Users.updateOne(first._id, { attempts: 1 });
+	expect(updated.acknowledged).toBeTrue();
+	if (!updated.acknowledged) return;
+	expect(updated.model.posts).toEqual([]);
+});
+
+test("Transaction Usage", async () => {
+	await Users.drop();
+	await Posts.drop();
+	const inserted = await Users.insert({
+		email: "author@email.com",
+		password: "$omePassw0rd",
+	});
+	expect(inserted.acknowledged).toBeTrue();
+	if (!inserted.acknowledged) return;
+	const author = inserted.model;
+
+	const title = await client.transaction(async (tx) => {
+		const post = await tx
+			.collection(Posts)
+			.insert({ title: "A Post", author: author._id });
+		expect(post.acknowledged).toBeTrue();
+		if (!post.acknowledged) return null;
+
+		const populated = await post.model.populate("author");
+		expect(populated).toBeInstanceOf(UserModel);
+
+		const updated = await tx.collection(Users).updateOne(author._id, (user) => {
+			user.attempts++;
+		});
+		expect(updated.acknowledged).toBeTrue();
+		return post.model.title;
+	});
+	expect(title).toEqual("A Post");
+	expect(await Posts.count({ author: author._id })).toEqual(1);
+	expect((await Users.findOne(author._id))?.attempts).toEqual(1);
+
+	await client.transaction(async (tx) => {
+		await tx.collection(Posts).insert({ title: "Aborted Post", author: author._id });
+		await tx.collection(Posts).deleteMany({ author: author._id });
+		expect(await tx.collection(Posts).count()).toEqual(0);
+		await tx.abort();
+	});
+	expect(await Posts.count()).toEqual(1);
+	expect(await Posts.exists({ title: "Aborted Post" })).toBeFalse();
+});
+
+test("Update Many Outcomes", async () => {
+	await Users.drop();
+	for (const name of ["first", "second", "third"]) {
+		const inserted = await Users.insert({
+			email: `${name}@email.com`,
+			password: "$omePassw0rd",
+		});
+		expect(inserted.acknowledged).toBeTrue();
+	}
+
+	const partial = await Users.updateMany({}, (user) => {
+		user.attempts = user.email.startsWith("second") ? -1 : 1;
+	});
+	expect(partial.acknowledged).toBeFalse();
+	expect(partial.updated).toBeArrayOfSize(2);
+	expect(partial.failed).toBeArrayOfSize(1);
+	expect(partial.failed.at(0)?.errors).toHaveProperty("attempts");
+	expect(await Users.count(Users.where().eq("attempts", 1))).toEqual(2);
+
+	const atomic = await Users.updateMany(
+		{},
+		(user) => {
+			user.attempts = user.email.startsWith("second") ? -1 : 2;
+		},
+		{ atomic: true },
+	);
+	expect(atomic.acknowledged).toBeFalse();
+	expect(atomic.updated).toBeArrayOfSize(0);
+	expect(atomic.failed).toBeArrayOfSize(1);
+	expect(await Users.count(Users.where().eq("attempts", 2))).toEqual(0);
+
+	await Users.drop();
+});
+
+test("Insert Many Results", async () => {
+	await Users.drop();
+	await Users.insert({ email: "existing@email.com", password: "$omePassw0rd" });
+
+	const unordered = await Users.insertMany(
+		[
+			{ email: "first@email.com", password: "$omePassw0rd" },
+			{ email: "not-an-email", password: "$omePassw0rd" },
+			{ email: "existing@email.com", password: "$omePassw0rd" },
+			{ email: "fourth@email.com", password: "$omePassw0rd" },
+		],
+		{ ordered: false },
+	);
+	expect(unordered.acknowledged).toBeFalse();
+	expect(unordered.insertedCount).toEqual(2);
+	const [first, invalid, duplicate, fourth] = unordered.results;
+	expect(first?.acknowledged && first.model).toBeInstanceOf(UserModel);
+	expect(!invalid?.acknowledged && invalid?.errors).toHaveProperty("email");
+	expect(!duplicate?.acknowledged && duplicate?.errors).toHaveProperty("email");
+	expect(fourth?.acknowledged && fourth.model).toBeInstanceOf(UserModel);
+
+	const ordered = await Users.insertMany([
+		{ email: "fifth@email.com", password: "$omePassw0rd" },
+		{ email: "not-an-email", password: "$omePassw0rd" },
+		{ email: "sixth@email.com", password: "$omePassw0rd" },
+	]);
+	expect(ordered.insertedCount).toEqual(1);
+	expect(ordered.results.map((result) => result.acknowledged)).toEqual([
+		true,
+		false,
+		false,
+	]);
+	expect(await Users.count()).toEqual(4);
+
+	await Users.drop();
+});
+
+test("Keyset Pagination", async () => {
+	await Users.drop();
+	await Users.insertMany(
+		[1, 2, 3, 4, 5].map((i) => ({
+			email: `page${i}@email.com`,
+			password: "$omePassw0rd",
+			attempts: i % 2,
+		})),
+	);
+
+	const first = await Users.paginate({}, { first: 2, sortBy: { attempts: 1 } });
+	expect(first.edges.map((edge) => edge.node.email)).toEqual([
+		"page2@email.com",
+		"page4@email.com",
+	]);
+	expect(first.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+	if (!first.pageInfo.endCursor) return;
+
+	const second = await Users.paginate(
+		{},
+		{ first: 2, after: first.pageInfo.endCursor, sortBy: { attempts: 1 } },
+	);
+	expect(second.edges.map((edge) => edge.node.email)).toEqual([
+		"page1@email.com",
+		"page3@email.com",
+	]);
+	expect(second.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+	if (!second.pageInfo.startCursor) return;
+
+	const previous = await Users.find().paginate({
+		last: 2,
+		before: second.pageInfo.startCursor,
+		sortBy: { attempts: 1 },
+	});
+	expect(previous.edges.map((edge) => edge.node.email)).toEqual(
+		first.edges.map((edge) => edge.node.email),
+	);
+	expect(previous.pageInfo.hasPreviousPage).toBeFalse();
+
+	const locked = await Users.paginate((user) => user.attempts === 1, { first: 5 });
+	expect(locked.edges).toBeArrayOfSize(3);
+	expect(locked.pageInfo.hasNextPage).toBeFalse();
+
+	await expect(Users.paginate({}, { after: "not-a-cursor" })).rejects.toThrow(TypeError);
+
+	await Users.drop();
+
+	// dotted sort keys are read from nested values, and nulls sort before other values
+	const RankSchema = z.object({
+		name: z.string(),
+		profile: z.object({ rank: z.number().nullable() }),
+	});
+	class RankModel extends Model<typeof RankSchema> {
+		name!: string;
+		profile!: { rank: number | null };
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	const Ranks = db.collection({ name: "ranks", schema: RankSchema, model: RankModel });
+	await Ranks.drop();
+	await Ranks.insertMany([
+		{ name: "a", profile: { rank: 2 } },
+		{ name: "b", profile: { rank: null } },
+		{ name: "c", profile: { rank: 1 } },
+		{ name: "d", profile: { rank: null } },
+	]);
+
+	const walk = async (
+		sortBy: PaginationOptions<typeof RankSchema>["sortBy"],
+		backward = false,
+	): Promise<Array<string>> => {
+		const names: Array<string> = [];
+		let cursor: string | null = null;
+		for (let page = 0; page < 5; page++) {
+			const { edges, pageInfo }: Page<RankModel> = await Ranks.paginate(
+				{},
+				{
+					...(backward ? { last: 1 } : { first: 1 }),
+					...(cursor !== null && (backward ? { before: cursor } : { after: cursor })),
+					...(sortBy && { sortBy }),
+				},
+			);
+			names.push(...edges.map((edge) => edge.node.name));
+			cursor = backward ? pageInfo.startCursor : pageInfo.endCursor;
+			if (!(backward ? pageInfo.hasPreviousPage : pageInfo.hasNextPage)) break;
+		}
+		return names;
+	};
+	expect(await walk({ "profile.rank": 1 })).toEqual(["b", "d", "c", "a"]);
+	expect(await walk({ "profile.rank": -1 })).toEqual(["a", "c", "b", "d"]);
+	expect(await walk({ "profile.rank": 1 }, true)).toEqual(["a", "c", "d", "b"]);
+
+	await Ranks.drop();
+});
+
+test("Server-Side Paging", async () => {
+	await Users.drop();
+	await Users.insertMany(
+		[1, 2, 3, 4, 5, 6].map((i) => ({
+			email: `paged${i}@email.com`,
+			password: "$omePassw0rd",
+			attempts: i,
+		})),
+	);
+
+	// the skip and limit are sent with the query, rather than applied to every document
+	const find = spyOn(Users.collection, "find");
+	const paged = await Users.find({}, { skip: 3, limit: 2 })
+		.sort({ attempts: 1 })
+		.toArray();
+	expect(paged?.map((user) => user.attempts)).toEqual([4, 5]);
+	expect(find.mock.calls.at(-1)?.[1]).toMatchObject({ skip: 3, limit: 2 });
+
+	const translated = await Users.find((user) => user.attempts > 1, { skip: 1, limit: 2 })
+		.sort({ attempts: 1 })
+		.toArray();
+	expect(translated?.map((user) => user.attempts)).toEqual([3, 4]);
+	expect(find.mock.calls.at(-1)?.[1]).toMatchObject({ skip: 1, limit: 2 });
+
+	// predicates evaluated client-side still skip and limit client-side
+	const locked = await Users.find((user) => user.locked, { skip: 1, limit: 2 })
+		.sort({ attempts: 1 })
+		.toArray();
+	expect(locked?.map((user) => user.attempts)).toEqual([4, 5]);
+	expect(find.mock.calls.at(-1)?.[1]?.skip).toBeUndefined();
+	expect(find.mock.calls.at(-1)?.[1]?.limit).toBeUndefined();
+	find.mockRestore();
+
+	const counted = spyOn(Users.collection, "countDocuments");
+	const cursor = Users.find({}).skip(2).limit(3);
+	expect(await cursor.count()).toEqual(3);
+	expect(counted).toHaveBeenCalledTimes(1);
+	counted.mockRestore();
+
+	const clone = cursor.clone();
+	expect((await clone.toArray())?.length).toEqual(3);
+	expect(await Users.find({}).skip(6).toArray()).toBeNull();
+
+	await Users.drop();
+});
+
+test("Selected Fields", async () => {
+	await Users.drop();
+	await Users.insertMany(
+		[1, 2, 3].map((i) => ({
+			email: `selected${i}@email.com`,
+			password: "$omePassw0rd",
+			attempts: i,
+		})),
+	);
+
+	const find = spyOn(Users.collection, "find");
+	const users = await Users.find({}).select(["email", "attempts"]).toArray();
+	expect(find.mock.calls.at(-1)?.[1]?.projection).toEqual({ email: 1, attempts: 1 });
+	find.mockRestore();
+	expect(users).toBeArrayOfSize(3);
+	if (!users?.[0]) return;
+
+	const [user] = users;
+	expect(user.email).toEqual("selected1@email.com");
+	expect(user._id).toBeInstanceOf(mongo.ObjectId);
+	// @ts-expect-error unselected keys are not on selected models
+	expect(user.password).toBeUndefined();
+	expect(() => {
+		// @ts-expect-error selected models are read-only
+		user.attempts = 0;
+	}).toThrow(TypeError);
+	expect(JSON.parse(JSON.stringify(user))).toEqual({
+		_id: user._id.toHexString(),
+		email: "selected1@email.com",
+		attempts: 1,
+	});
+
+	// transforms set before the selection are passed the selected models
+	const passwords = await Users.find({})
+		.map((user) => "password" in user)
+		.select(["email"])
+		.toArray();
+	expect(passwords).toEqual([false, false, false]);
+
+	// client-side predicates see whole models, which are narrowed afterward
+	const fetched = spyOn(Users.collection, "find");
+	const locked = await Users.find((user) => user.locked)
+		.select(["email"])
+		.toArray();
+	expect(fetched.mock.calls.at(-1)?.[1]?.projection).toBeUndefined();
+	fetched.mockRestore();
+	expect(locked?.map((user) => user.email)).toEqual(["selected3@email.com"]);
+	expect(locked?.map((user) => "attempts" in user)).toEqual([false]);
+
+	await Users.drop();
+});
+
+test("Upsert Usage", async () => {
+	await Users.drop();
+
+	const inserted = await Users.upsert(
+		{ email: "email@email.com" },
+		{ password: "$omePassw0rd", attempts: 2 },
+	);
+	expect(inserted.acknowledged && inserted.inserted).toBeTrue();
+	expect(inserted.acknowledged && inserted.model.email).toEqual("email@email.com");
+
+	const updated = await Users.upsert(Users.where().eq("email", "email@email.com"), {
+		password: "$omePassw0rd",
+		attempts: 0,
+	});
+	expect(updated.acknowledged && !updated.inserted).toBeTrue();
+	expect(updated.acknowledged && updated.model.attempts).toEqual(0);
+	expect(await Users.count()).toEqual(1);
+
+	const invalid = await Users.upsert({ email: "other@email.com" }, { attempts: 1 });
+	expect(!invalid.acknowledged && invalid.errors).toHaveProperty("password");
+
+	const missing = await Users.updateOne({ email: "other@email.com" }, { attempts: 1 });
+	expect(missing.acknowledged).toBeFalse();
+
+	const upserted = await Users.updateOne(
+		{ email: "other@email.com" },
+		(user) => {
+			user.password = "$omePassw0rd";
+		},
+		{ upsert: true },
+	);
+	expect(upserted.acknowledged && upserted.model.email).toEqual("other@email.com");
+	expect(await Users.count()).toEqual(2);
+
+	await Users.drop();
+});
+
+test("Lifecycle Hooks", async () => {
+	const AuditSchema = z.object({ action: z.string(), user: z.string() });
+	class AuditModel extends Model<typeof AuditSchema> {
+		action!: string;
+		user!: string;
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	const Audits = db.collection({
+		name: "audits",
+		schema: AuditSchema,
+		model: AuditModel,
+	});
+
+	class AccountModel extends UserModel {
+		override beforeInsert(): undefined {
+			this.password = this.password.split("").reverse().join("");
+		}
+
+		override beforeUpdate(before: this) {
+			if (before.email !== this.email) return { email: "Email Cannot Change" };
+		}
+	}
+	const Accounts = db.collection({
+		name: "accounts",
+		schema: UserSchema,
+		model: AccountModel,
+		hooks: {
+			afterInsert: async (account): Promise<undefined> => {
+				await Audits.insert({ action: "insert", user: account.email });
+			},
+			afterUpdate: (_, account) => {
+				if (account.attempts > 1) return { general: "Too Many Attempts" };
+			},
+			beforeDelete: (account) => {
+				if (account.attempts > 0) return { general: "Account Is In Use" };
+			},
+			afterDelete: async (account): Promise<undefined> => {
+				await Audits.insert({ action: "delete", user: account.email });
+			},
+		},
+	});
+	await Accounts.drop();
+	await Audits.drop();
+
+	const inserted = await Accounts.insert({
+		email: "a@email.com",
+		password: "$omePassw0rd",
+	});
+	expect(inserted.acknowledged && inserted.model.password).toEqual("dr0wssaPemo$");
+	expect(await Audits.count({ action: "insert" })).toEqual(1);
+
+	const rejected = await Accounts.updateOne({ email: "a@email.com" }, (account) => {
+		account.email = "b@email.com";
+	});
+	expect(!rejected.acknowledged && rejected.errors).toEqual({
+		email: "Email Cannot Change",
+	});
+
+	const upserted = await Accounts.upsert(
+		{ email: "c@email.com" },
+		{ password: "$omePassw0rd" },
+	);
+	expect(upserted.acknowledged && upserted.inserted && upserted.model.password).toEqual(
+		"dr0wssaPemo$",
+	);
+	expect(await Audits.count({ action: "insert" })).toEqual(2);
+	const unchanged = await Accounts.upsert(
+		{ email: "c@email.com" },
+		{ email: "d@email.com" },
+	);
+	expect(!unchanged.acknowledged && unchanged.errors).toEqual({
+		email: "Email Cannot Change",
+	});
+
+	const reported = await Accounts.updateMany({ email: "c@email.com" }, { attempts: 2 });
+	expect(reported.acknowledged).toBeTrue();
+	expect(reported.updated).toBeArrayOfSize(1);
+	expect(reported.failed).toBeArrayOfSize(0);
+	expect(reported.reported?.map(({ errors }) => errors)).toEqual([
+		{ general: "Too Many Attempts" },
+	]);
+
+	await Accounts.updateOne({ email: "a@email.com" }, { attempts: 1 });
+	expect(await Accounts.deleteOne({ email: "a@email.com" })).toEqual({
+		acknowledged: false,
+		errors: { general: "Account Is In Use" },
+	});
+	expect(await Accounts.deleteMany({ email: "a@email.com" })).toEqual({
+		acknowledged: false,
+		errors: { general: "Account Is In Use" },
+	});
+	expect(await Accounts.count({ email: "a@email.com" })).toEqual(1);
+	await Accounts.updateOne({ email: "a@email.com" }, { attempts: 0 });
+	expect(await Accounts.deleteOne({ email: "a@email.com" })).toBeInstanceOf(AccountModel);
+	expect(await Audits.count({ action: "delete" })).toEqual(1);
+
+	await Accounts.drop();
+	await Audits.drop();
+});
+
+test("Referential Actions", async () => {
+	const TeamSchema = z.object({ name: z.string() });
+	class TeamModel extends Model<typeof TeamSchema> {
+		name!: string;
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	let checked = 0;
+	const Teams = db.collection({
+		name: "teams",
+		schema: TeamSchema,
+		model: TeamModel,
+		hooks: {
+			beforeDelete: (): undefined => {
+				checked++;
+			},
+		},
+	});
+
+	const PlayerSchema = z.object({
+		name: z.string(),
+		team: ToOneSchema<typeof TeamSchema>(TeamModel),
+		coach: ToOneSchema<UserSchema>(UserModel),
+	});
+	class PlayerModel extends Model<typeof PlayerSchema> {
+		name!: string;
+		@toOne(Teams, { onDelete: "cascade" })
+		team: ToOneRef<typeof Teams> = null;
+		@toOne(Users, { onDelete: "setNull" })
+		coach: ToOneRef<typeof Users> = null;
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	const Players = db.collection({
+		name: "players",
+		schema: PlayerSchema,
+		model: PlayerModel,
+	});
+
+	const ContractSchema = z.object({
+		player: ToOneSchema<typeof PlayerSchema>(PlayerModel),
+	});
+	class ContractModel extends Model<typeof ContractSchema> {
+		@toOne(Players, { onDelete: "restrict" })
+		player: ToOneRef<typeof Players> = null;
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	const Contracts = db.collection({
+		name: "contracts",
+		schema: ContractSchema,
+		model: ContractModel,
+	});
+
+	const LoanSchema = z.object({ team: ToOneSchema<typeof TeamSchema>(TeamModel) });
+	class LoanModel extends Model<typeof LoanSchema> {
+		@toOne(Teams, { onDelete: "restrict" })
+		team: ToOneRef<typeof Teams> = null;
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	const Loans = db.collection({
+		name: "loans",
+		schema: LoanSchema,
+		model: LoanModel,
+		softDelete: true,
+	});
+
+	await Users.drop();
+	await Teams.drop();
+	await Players.drop();
+	await Contracts.drop();
+	await Loans.drop();
+
+	const coach = await Users.insert({
+		email: "coach@email.com",
+		password: "$omePassw0rd",
+	});
+	const team = await Teams.insert({ name: "A Team" });
+	expect(coach.acknowledged && team.acknowledged).toBeTrue();
+	if (!coach.acknowledged || !team.acknowledged) return;
+	const player = await Players.insert({
+		name: "A Player",
+		team: team.model._id,
+		coach: coach.model._id,
+	});
+	await Players.insert({ name: "Another Player", team: team.model._id });
+	expect(player.acknowledged).toBeTrue();
+	if (!player.acknowledged) return;
+
+	expect(await Users.deleteOne(coach.model._id)).toBeInstanceOf(UserModel);
+	expect((await Players.findOne(player.model._id))?.coach).toBeNull();
+
+	await Contracts.insert({ player: player.model._id });
+	expect(await Teams.deleteOne(team.model._id)).toEqual({
+		acknowledged: false,
+		errors: { general: "Referenced By contracts" },
+	});
+	expect(await Teams.count()).toEqual(1);
+	expect(await Players.count()).toEqual(2);
+
+	// restrictions are checked across every batch before the first is deleted
+	const other = await Teams.insert({ name: "B Team" });
+	expect(other.acknowledged).toBeTrue();
+	if (!other.acknowledged) return;
+	const signed = await Players.insert({ name: "B Player", team: other.model._id });
+	expect(signed.acknowledged).toBeTrue();
+	if (!signed.acknowledged) return;
+	await Contracts.deleteMany({}, { returnModels: false });
+	await Contracts.insert({ player: signed.model._id });
+	expect(await Teams.deleteMany({}, { batchSize: 1 })).toEqual({
+		acknowledged: false,
+		errors: { general: "Referenced By contracts" },
+	});
+	expect(await Teams.count()).toEqual(2);
+	expect(await Players.count()).toEqual(3);
+	// hooks of a restricted delete never run
+	expect(checked).toEqual(0);
+
+	await Contracts.deleteMany({}, { returnModels: false });
+	expect(await Teams.deleteMany({})).toBeArrayOfSize(2);
+	expect(checked).toEqual(2);
+	expect(await Players.count()).toEqual(0);
+
+	// soft-deleted referrers do not restrict
+	const loaned = await Teams.insert({ name: "C Team" });
+	expect(loaned.acknowledged).toBeTrue();
+	if (!loaned.acknowledged) return;
+	const loan = await Loans.insert({ team: loaned.model._id });
+	expect(loan.acknowledged).toBeTrue();
+	if (!loan.acknowledged) return;
+	await Loans.deleteOne(loan.model._id);
+	expect(await Teams.deleteOne(loaned.model._id)).toBeInstanceOf(TeamModel);
+
+	await Loans.drop();
+});
+
+test("Migrations", async () => {
+	const ledger = Users.collection.db.collection<{ _id: string; lockedAt: Date }>(
+		"_migrations",
+	);
+	await Users.drop();
+	await ledger.deleteMany({});
+	await Users.insertMany(
+		[1, 2, 3].map((i) => ({
+			email: `migrated${i}@email.com`,
+			password: "$omePassw0rd",
+			attempts: i,
+		})),
+	);
+
+	const migrations: Array<Migration> = [
+		{
+			id: "reset-attempts",
+			async up({ collection }) {
+				const updated = await collection(Users).updateMany(
+					(user) => user.attempts > 1,
+					{ attempts: 0 },
+					{ returnModels: false },
+				);
+				return updated.acknowledged ? updated.count : 0;
+			},
+			async down({ collection }): Promise<undefined> {
+				await collection(Users).updateMany({}, { attempts: 1 }, { returnModels: false });
+			},
+		},
+		{
+			id: "add-teams",
+			// dry runs count the written documents of steps that report nothing
+			async up({ collection, session }): Promise<undefined> {
+				await collection(Users).collection.updateMany(
+					{},
+					{ $set: { teams: { _JSSet: [1] } } },
+					{ ...(session && { session }) },
+				);
+			},
+		},
+	];
+
+	const dry = await db.migrate(migrations, { dryRun: true });
+	expect(dry).toEqual({
+		acknowledged: true,
+		steps: [
+			{ id: "reset-attempts", direction: "up", touched: 2 },
+			{ id: "add-teams", direction: "up", touched: 3 },
+		],
+	});
+	expect(await Users.count({ attempts: 0 })).toEqual(0);
+
+	const applied = await db.migrate(migrations);
+	expect(applied.acknowledged && applied.steps.map((step) => step.id)).toEqual([
+		"reset-attempts",
+		"add-teams",
+	]);
+	expect(await Users.count({ attempts: 0 })).toEqual(2);
+	expect(await db.migrate(migrations)).toEqual({ acknowledged: true, steps: [] });
+
+	const irreversible = await db.rollback(migrations);
+	expect(!irreversible.acknowledged && irreversible.errors.general).toEqual(
+		"Migration add-teams Is Irreversible",
+	);
+
+	// a step that throws stops the run, and a dry run is still rolled back
+	const failing: Array<Migration> = [
+		{
+			id: "failing",
+			async up({ collection }): Promise<undefined> {
+				await collection(Users).updateMany({}, { attempts: 5 }, { returnModels: false });
+				throw new Error("Step Failed");
+			},
+		},
+	];
+	expect(await db.migrate(failing, { dryRun: true })).toEqual({
+		acknowledged: false,
+		errors: { general: "Migration failing Failed" },
+		steps: [],
+	});
+	expect(await Users.count({ attempts: 5 })).toEqual(0);
+
+	// a runner holding the lock blocks others until it expires
+	await ledger.insertOne({ _id: "$lock", lockedAt: new Date() });
+	const locked = await db.migrate(migrations);
+	expect(!locked.acknowledged && locked.errors.general).toEqual("Migrations Locked");
+	await ledger.deleteOne({ _id: "$lock" });
+
+	await Users.drop();
+	await ledger.drop();
+});
+
+test("Change Streams", async () => {
+	await Users.drop();
+	// events are replayed from before the writes, so none are missed while the stream opens
+	const { operationTime } = await Users.collection.db.command({ ping: 1 });
+	const stream = Users.watch(
+		{},
+		{ fullDocument: "updateLookup", startAtOperationTime: operationTime },
+	);
+
+	const inserted = await Users.insert({
+		email: "watched@email.com",
+		password: "$omePassw0rd",
+	});
+	if (!inserted.acknowledged) return;
+	const { _id } = inserted.model;
+	await Users.updateOne(_id, { attempts: 2 });
+	await Users.deleteOne(_id);
+
+	const insert = await stream.next();
+	expect(insert?.operationType).toEqual("insert");
+	if (insert?.operationType !== "insert") return;
+	expect(insert.fullDocument).toBeInstanceOf(UserModel);
+	expect(insert.fullDocument.email).toEqual("watched@email.com");
+
+	const update = await stream.next();
+	expect(update?.operationType).toEqual("update");
+	if (update?.operationType !== "update") return;
+	expect(update.changed).toEqual(["attempts"]);
+	expect(update.fullDocument?.attempts).toEqual(2);
+
+	const deletion = await stream.next();
+	expect(deletion?.operationType).toEqual("delete");
+	expect(deletion?.documentKey._id).toEqual(_id);
+	await stream.close();
+	expect(await stream.next()).toBeNull();
+
+	const resumed = Users.watch({}, { resumeAfter: insert._id });
+	expect((await resumed.next())?.operationType).toEqual("update");
+	await resumed.close();
+
+	const filtered = Users.watch(
+		{ attempts: 5 },
+		{
+			startAtOperationTime: (await Users.collection.db.command({ ping: 1 }))
+				.operationTime,
+		},
+	);
+	await Users.insert({ email: "ignored@email.com", password: "$omePassw0rd" });
+	await Users.insert({
+		email: "matched@email.com",
+		password: "$omePassw0rd",
+		attempts: 5,
+	});
+	const matched = await filtered.next();
+	expect(matched?.operationType === "insert" && matched.fullDocument.email).toEqual(
+		"matched@email.com",
+	);
+	await filtered.close();
+
+	await Users.drop();
+});
+
+test("Soft Delete", async () => {
+	const Members = db.collection({
+		name: "members",
+		schema: UserSchema,
+		model: UserModel,
+		softDelete: true,
+	});
+	await Members.drop();
+
+	const first = await Members.insert({ email: "a@email.com", password: "$omePassw0rd" });
+	await Members.insert({ email: "b@email.com", password: "$omePassw0rd" });
+	expect(first.acknowledged).toBeTrue();
+	if (!first.acknowledged) return;
+
+	const deleted = await Members.deleteOne(first.model._id);
+	expect(deleted).toBeInstanceOf(UserModel);
+	if (!(deleted instanceof UserModel)) return;
+	expect(deleted.deletedAt).toBeInstanceOf(Date);
+	expect(await Members.findOne(first.model._id)).toBeNull();
+	expect(await Members.exists({ email: "a@email.com" })).toBeFalse();
+	expect(await Members.count()).toEqual(1);
+	expect(await Members.count({}, { withDeleted: true })).toEqual(2);
+	expect(await Members.findMany({}, { withDeleted: true })).toHaveLength(2);
+
+	const upserted = await Members.upsert({ email: "a@email.com" }, { attempts: 1 });
+	expect(upserted.acknowledged && upserted.inserted).toBeTrue();
+	expect(upserted.acknowledged && upserted.model._id).not.toEqual(first.model._id);
+	expect(await Members.count({ email: "a@email.com" })).toEqual(1);
+	expect(await Members.count({}, { withDeleted: true })).toEqual(3);
+	if (!upserted.acknowledged) return;
+	await Members.deleteOne(upserted.model._id);
+	expect(await Members.purge({ _id: upserted.model._id })).toEqual(1);
+
+	expect(await Members.restore({ email: "a@email.com" })).toEqual(1);
+	expect(await Members.count()).toEqual(2);
+
+	expect(await Members.deleteMany({}, { returnModels: false })).toEqual(2);
+	expect(await Members.purge((member) => member.email.startsWith("a"))).toEqual(1);
+	expect(await Members.count({}, { withDeleted: true })).toEqual(1);
+
+	await Members.drop();
+});
+
+test("Timestamps", async () => {
+	await Users.drop();
+
+	const inserted = await Users.insert({
+		email: "email@email.com",
+		password: "$omePassw0rd",
+	});
+	expect(inserted.acknowledged).toBeTrue();
+	if (!inserted.acknowledged) return;
+	const { createdAt, updatedAt } = inserted.model;
+	expect(createdAt).toBeInstanceOf(Date);
+	expect(updatedAt).toEqual(createdAt);
+
+	const updated = await Users.updateOne(inserted.model._id, { attempts: 1 });
+	expect(updated.acknowledged).toBeTrue();
+	if (!updated.acknowledged) return;
+	expect(updated.model.createdAt).toEqual(createdAt);
+	expect(updated.model.updatedAt.getTime()).toBeGreaterThanOrEqual(updatedAt.getTime());
+
+	const unchanged = await Users.updateOne(inserted.model._id, { attempts: 1 });
+	expect(unchanged.acknowledged).toBeFalse();
+
+	const Events = db.collection({
+		name: "events",
+		schema: z.object({ name: z.string() }),
+		model: class EventModel extends Model<z.ZodObject<{ name: z.ZodString }>> {
+			name!: string;
+
+			constructor(data: Data) {
+				super();
+				this.hydrate(data);
+			}
+		},
+		timestamps: { createdAt: "created", updatedAt: "modified" },
+	});
+	await Events.drop();
+	const event = await Events.insert({ name: "launch" });
+	expect(event.acknowledged && event.model.created).toBeInstanceOf(Date);
+	expect(event.acknowledged && event.model.modified).toBeInstanceOf(Date);
+	expect(event.acknowledged && event.model.createdAt).toBeUndefined();
+
+	await Events.drop();
+	await Users.drop();
+});
+
+test("Optimistic Concurrency", async () => {
+	const Profiles = db.collection({
+		name: "profiles",
+		schema: UserSchema,
+		model: UserModel,
+		versionKey: "revision",
+	});
+	await Profiles.drop();
+
+	const inserted = await Profiles.insert({
+		email: "email@email.com",
+		password: "$omePassw0rd",
+	});
+	expect(inserted.acknowledged).toBeTrue();
+	if (!inserted.acknowledged) return;
+	expect(inserted.model.revision).toEqual(0);
+	const id = inserted.model._id;
+
+	let interrupted = false;
+	const interrupt = async (profile: UserModel) => {
+		if (!interrupted) {
+			interrupted = true;
+			await Profiles.updateOne(id, (concurrent) => {
+				concurrent.attempts++;
+			});
+		}
+		profile.teams.add(1);
+	};
+
+	const conflict = await Profiles.updateOne(id, interrupt);
+	expect(!conflict.acknowledged && conflict.errors).toEqual({
+		general: "Version conflict",
+	});
+
+	interrupted = false;
+	const retried = await Profiles.updateOne(id, interrupt, { retries: 1 });
+	expect(retried.acknowledged).toBeTrue();
+	if (!retried.acknowledged) return;
+	expect(retried.model.revision).toEqual(3);
+	expect(retried.model.attempts).toEqual(2);
+	expect(retried.model.teams).toEqual(new Set([1]));
+
+	const stale = await Profiles.updateMany({}, async (profile) => {
+		await Profiles.updateOne(profile._id, (concurrent) => {
+			concurrent.attempts++;
+		});
+		profile.teams.add(2);
+	});
+	expect(stale.failed).toEqual([{ _id: id, errors: { general: "Version conflict" } }]);
+
+	// upserted models start at the version inserted models start at
+	const upserted = await Profiles.upsert(
+		{ email: "upserted@email.com" },
+		{ password: "$omePassw0rd" },
+	);
+	expect(upserted.acknowledged && upserted.inserted).toBeTrue();
+	expect(upserted.acknowledged && upserted.model.revision).toEqual(0);
+	const reupserted = await Profiles.upsert(
+		{ email: "upserted@email.com" },
+		{ attempts: 1 },
+	);
+	expect(reupserted.acknowledged && reupserted.inserted).toBeFalse();
+	expect(reupserted.acknowledged && reupserted.model.revision).toEqual(1);
+
+	await Profiles.drop();
+});
+
+test("Schema Versioning", async () => {
+	const Profiles = db.collection({
+		name: "profiles",
+		schema: UserSchema,
+		model: UserModel,
+		version: 3,
+		upgraders: [
+			({ mail, ...document }) => ({ ...document, email: mail }),
+			(document) => ({ ...document, attempts: 0 }),
+		],
+	});
+	await Profiles.drop();
+
+	const id = new mongo.ObjectId();
+	await Profiles.collection.insertMany([
+		{ _id: id, mail: "first@email.com", password: "$omePassw0rd" },
+		{ email: "second@email.com", password: "$omePassw0rd", __v: 2 },
+	]);
+
+	const first = await Profiles.findOne(id);
+	expect(first?.email).toEqual("first@email.com");
+	expect(first?.attempts).toEqual(0);
+	expect((first as Data).__v).toEqual(3);
+	expect(first && "mail" in first).toBeFalse();
+	expect(await Profiles.collection.findOne({ _id: id })).toHaveProperty("mail");
+
+	const inserted = await Profiles.insert({
+		email: "third@email.com",
+		password: "$omePassw0rd",
+	});
+	expect(inserted.acknowledged && (inserted.model as Data).__v).toEqual(3);
+	expect(await Profiles.collection.countDocuments({ __v: 3 })).toEqual(1);
+
+	// updated documents are upgraded in the same write as their changes
+	const updated = await Profiles.updateOne(id, { attempts: 1 });
+	expect(updated.acknowledged).toBeTrue();
+	expect(await Profiles.collection.findOne({ _id: id })).toMatchObject({
+		email: "first@email.com",
+		attempts: 1,
+		__v: 3,
+	});
+
+	const Written = db.collection({
+		name: "profiles",
+		schema: UserSchema,
+		model: UserModel,
+		version: 3,
+		upgraders: [(document) => document, (document) => ({ ...document, attempts: 0 })],
+		writeUpgrades: true,
+	});
+	// projected documents are partial, so they are not upgraded or written back
+	const selected = await Written.find({}).select(["password"]).toArray();
+	expect(selected).toHaveLength(3);
+	expect(await Profiles.collection.findOne({ email: "second@email.com" })).toMatchObject({
+		password: "$omePassw0rd",
+		__v: 2,
+	});
+
+	const models = await Written.find().toArray();
+	expect(models?.map((model) => model.email)).toEqual([
+		"first@email.com",
+		"second@email.com",
+		"third@email.com",
+	]);
+	expect(await Profiles.collection.countDocuments({ __v: 3 })).toEqual(3);
+
+	await Profiles.drop();
+});
+
+test("Index Sync", async () => {
+	await db.collection({ name: "indexed", schema: UserSchema, model: UserModel }).drop();
+	await Users.collection.db.collection("indexed").createIndex({ password: 1 });
+
+	const Indexed = db.collection({
+		name: "indexed",
+		schema: UserSchema,
+		model: UserModel,
+		uniques: ["email"],
+		indexes: [
+			{ attempts: 1, email: -1 },
+			{ key: { password: "text" }, name: "search" },
+			{ key: { email: 1, attempts: 1 }, partialFilterExpression: { attempts: 0 } },
+			{ key: { email: 1, password: 1 }, collation: { locale: "en", strength: 2 } },
+		],
+	});
+	// defining the collection syncs its indexes
+	const synced = await Indexed.indexed;
+	expect(synced.acknowledged).toBeTrue();
+	expect(synced.stale).toEqual(["password_1"]);
+
+	const planned = await Indexed.syncIndexes({ dropStale: true, dryRun: true });
+	expect(planned).toEqual({
+		acknowledged: true,
+		created: [],
+		dropped: ["password_1"],
+		stale: [],
+		unchanged: [
+			"email",
+			"attempts_1_email_-1",
+			"search",
+			"email_1_attempts_1",
+			"email_1_password_1",
+		],
+	});
+	expect(await Indexed.collection.indexExists("password_1")).toBeTrue();
+
+	const dropped = await Indexed.syncIndexes({ dropStale: true });
+	expect(dropped.acknowledged && dropped.dropped).toEqual(["password_1"]);
+	expect(await Indexed.collection.indexExists("password_1")).toBeFalse();
+
+	const all = await db.syncAllIndexes({ dryRun: true });
+	expect(all.results.indexed?.acknowledged && all.results.indexed.stale).toEqual([]);
+
+	await Indexed.drop();
+});
+
+test("Unique Constraints", async () => {
+	const MemberSchema = z.object({
+		org: z.string(),
+		email: z.email(),
+		handle: z.string(),
+	});
+	class MemberModel extends Model<typeof MemberSchema> {
+		org!: string;
+		email!: string;
+		handle!: string;
+
+		constructor(data: Data) {
+			super();
+			this.hydrate(data);
+		}
+	}
+	const Members = db.collection({
+		name: "members",
+		schema: MemberSchema,
+		model: MemberModel,
+		softDelete: true,
+		uniques: [
+			["org", "email"],
+			{
+				fields: "handle",
+				filter: { deletedAt: null },
+				collation: { locale: "en", strength: 2 },
+				message: "Handle is taken",
+			},
+		],
+	});
+	await Members.drop();
+	expect((await Members.syncIndexes()).acknowledged).toBeTrue();
+
+	const first = await Members.insert({
+		org: "a",
+		email: "email@email.com",
+		handle: "Ada",
+	});
+	expect(first.acknowledged).toBeTrue();
+	if (!first.acknowledged) return;
+	const other = await Members.insert({
+		org: "b",
+		email: "email@email.com",
+		handle: "Grace",
+	});
+	expect(other.acknowledged).toBeTrue();
+
+	const compound = await Members.insert({
+		org: "a",
+		email: "email@email.com",
+		handle: "Alan",
+	});
+	expect(!compound.acknowledged && compound.errors).toEqual({
+		org: "org, email must be unique together",
+		email: "org, email must be unique together",
+	});
+
+	const cased = await Members.insert({ org: "c", email: "ada@email.com", handle: "ada" });
+	expect(!cased.acknowledged && cased.errors).toEqual({ handle: "Handle is taken" });
+
+	// deleted members no longer hold their handle
+	await Members.deleteOne(first.model._id);
+	const reused = await Members.insert({
+		org: "c",
+		email: "ada@email.com",
+		handle: "ada",
+	});
+	expect(reused.acknowledged).toBeTrue();
+
+	const many = await Members.insertMany(
+		[
+			{ org: "b", email: "email@email.com", handle: "Linus" },
+			{ org: "d", email: "email@email.com", handle: "ADA" },
+		],
+		{ ordered: false },
+	);
+	expect(many.results.map((result) => !result.acknowledged && result.errors)).toEqual([
+		{
+			org: "org, email must be unique together",
+			email: "org, email must be unique together",
+		},
+		{ handle: "Handle is taken" },
+	]);
+
+	await Members.drop();
 });
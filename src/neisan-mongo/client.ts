@@ -2,26 +2,68 @@ import assert from "node:assert";
 import mongo from "mongodb";
 import z from "zod/v4";
 import type {
+	AggregateOptions,
+	BulkOptions,
+	CollectionHooks,
 	CollectionModel,
 	CollectionParameters,
+	ChangeEvent,
 	CountOptions,
 	CursorCloseOptions,
 	Data,
+	DeleteFailure,
+	DeleteManyResult,
+	DocumentUpgrader,
+	Edge,
+	ExistsOptions,
 	FindOneOptions,
 	FindOptions,
-	HydratedData,
+	HookResult,
+	IndexDefinition,
+	IndexPlan,
+	InsertManyResult,
 	InsertResult,
 	MaybePromise,
+	MigrateOptions,
+	Migration,
+	MigrationContext,
+	MigrationResult,
+	MigrationStep,
 	ModelConstructor,
 	ModelUpdater,
+	Page,
+	PaginateOptions,
+	PaginationOptions,
+	Populate,
+	PopulateOptions,
 	QueryPredicate,
+	ReferentialAction,
+	RelationshipOptions,
+	RollbackOptions,
 	SchemaError,
+	Selected,
+	SoftDeleteOptions,
+	SyncAllIndexesResult,
+	SyncIndexesOptions,
+	SyncIndexesResult,
 	SortParameters,
+	TimestampOptions,
+	Timestamps,
+	TransactionOptions,
+	UniqueConstraint,
+	UpdateManyFailure,
+	UpdateManyOptions,
 	UpdateManyResult,
+	UpdateOneOptions,
 	UpdateResult,
+	UpsertResult,
+	WatchOptions,
 } from "../types.js";
-import { changes, decode, encode } from "../utils.js";
+import { changes, decode, encode, RecordLike, UpdateFilter } from "../utils.js";
 import { EnhancedMap } from "../data-structures.js";
+import { Aggregate } from "./aggregate.js";
+import { type CompiledPredicate, compilePredicate } from "./predicate.js";
+import { Query } from "./query.js";
 
 class Relationship<Schema extends z.ZodObject, Instance extends CollectionModel<Schema>> {
 	constructor(
@@ -29,12 +71,63 @@ class Relationship<Schema extends z.ZodObject, Instance extends CollectionModel<
 		public _id?: mongo.ObjectId,
 	) {}
 
-	async populate(): Promise<Instance | null> {
+	async populate(
+		options?: SoftDeleteOptions,
+		session?: mongo.ClientSession,
+	): Promise<Instance | null> {
 		if (!this._id) return null;
-		return this.collection.findOne(this._id);
+		const collection =
+			session && !session.hasEnded
+				? this.collection.withSession(session)
+				: this.collection;
+		return collection.findOne(this._id, options);
 	}
 }
 
+function lookup(options?: PopulateOptions): mongo.FindOptions & SoftDeleteOptions {
+	const { select, limit: _, ...rest } = options ?? {};
+	if (!select) return rest;
+	return { ...rest, projection: Object.fromEntries(select.map((key) => [key, 1])) };
+}
+
+function arrange<Instance extends CollectionModel<any>>(
+	ids: Array<mongo.ObjectId>,
+	models: Array<Instance>,
+	options?: PopulateOptions,
+): Array<Instance> {
+	// models are returned in the order of their ids, unless sorted by the query
+	let arranged: Array<Instance>;
+	if (options?.sort) {
+		const requested = new Set(ids.map((id) => id.toHexString()));
+		arranged = models.filter((model) => requested.has(model._id.toHexString()));
+	} else {
+		const byId = new Map(models.map((model) => [model._id.toHexString(), model]));
+		arranged = ids.flatMap((id) => byId.get(id.toHexString()) ?? []);
+	}
+	return options?.limit === undefined ? arranged : arranged.slice(0, options.limit);
+}
+
+function register(
+	target: any,
+	key: string,
+	relationship:
+		| ToOneRelationship<any, any>
+		| ToManyRelationship<any, any>
+		| InverseRelationship<any, any>,
+): void {
+	// subclasses extend, rather than share, the relationships of their parent
+	if (!Object.hasOwn(target, "__relationships__")) {
+		target.__relationships__ = new EnhancedMap(
+			target.__relationships__ instanceof EnhancedMap ? target.__relationships__ : [],
+		);
+	}
+	assert(
+		target.__relationships__ instanceof EnhancedMap,
+		"target.__relationships__ should be an EnhancedMap",
+	);
+	target.__relationships__.set(key, { relationship });
+}
+
 // One-To-One or Many-To-One Relationships
 export class ToOneRelationship<
 	Schema extends z.ZodObject,
@@ -43,11 +136,23 @@ export class ToOneRelationship<
 	constructor(
 		public readonly collection: MongoCollection<Schema, Instance>,
 		public _id?: mongo.ObjectId,
+		public readonly onDelete?: ReferentialAction,
 	) {}
 
-	async populate(): Promise<Instance | null> {
+	clone(): ToOneRelationship<Schema, Instance> {
+		return new ToOneRelationship(this.collection, this._id, this.onDelete);
+	}
+
+	async populate(
+		options?: PopulateOptions,
+		session?: mongo.ClientSession,
+	): Promise<Instance | null> {
 		if (!this._id) return null;
-		return this.collection.findOne(this._id);
+		const collection =
+			session && !session.hasEnded
+				? this.collection.withSession(session)
+				: this.collection;
+		return collection.findOne(this._id, lookup(options));
 	}
 }
 
@@ -77,37 +182,24 @@ export type ToOneRef<T> = T extends MongoCollection<infer _, infer Instance>
 export function toOne<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
->(collection: MongoCollection<Schema, Instance>) {
+>(collection: MongoCollection<Schema, Instance>, options?: RelationshipOptions) {
 	return (target: any, key: any) => {
 		assert(typeof target === "object", "target should be an object");
 		assert(typeof key === "string", "key should be a string");
 
-		if (
-			!("__relationships__" in target) ||
-			!(target.__relationships__ instanceof EnhancedMap)
-		) {
-			target.__relationships__ = new EnhancedMap();
-		}
-		assert(
-			target.__relationships__ instanceof EnhancedMap,
-			"target.__relationships__ should be a Map",
-		);
-
-		target.__relationships__.set(key, {
-			relationship: new ToOneRelationship(collection),
-		});
+		const onDelete = options?.onDelete;
+		register(target, key, new ToOneRelationship(collection, undefined, onDelete));
 
 		Object.defineProperty(target, key, {
 			configurable: false,
 			enumerable: true,
-			get: () => {
-				const value: ToOneRecord<Schema, Instance> =
-					target.__relationships__.get(key);
+			get(this: any) {
+				const value: ToOneRecord<Schema, Instance> = this.__relationships__.get(key);
 				if (!value) return null;
 				return value.model ?? value.relationship._id ?? null;
 			},
-			set: (value: unknown) => {
-				const current: ToOneRecord<Schema, Instance> = target.__relationships__.get(key);
+			set(this: any, value: unknown) {
+				const current: ToOneRecord<Schema, Instance> = this.__relationships__.get(key);
 				assert(typeof current === "object", "current should be an object");
 				assert(
 					current.relationship instanceof ToOneRelationship,
@@ -115,11 +207,11 @@ export function toOne<
 				);
 
 				if (value instanceof mongo.ObjectId) {
-					current.relationship = new ToOneRelationship(collection, value);
-					target.__relationships__.set(key, current);
+					current.relationship = new ToOneRelationship(collection, value, onDelete);
+					delete current.model;
 				} else if (value instanceof collection.model) {
+					current.relationship = new ToOneRelationship(collection, value._id, onDelete);
 					current.model = value;
-					target.__relationships__.set(key, current);
 				} else if (value === null) {
 					delete current.model;
 					delete current.relationship._id;
@@ -136,13 +228,54 @@ export class ToManyRelationship<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
 > {
+	/** The ids added by `push` since the relationship was read, written with `$addToSet`. */
+	readonly added: Array<mongo.ObjectId> = [];
+	/** The ids removed by `remove` since the relationship was read, written with `$pull`. */
+	readonly removed: Array<mongo.ObjectId> = [];
+
 	constructor(
 		public readonly collection: MongoCollection<Schema, Instance>,
 		public _ids: Array<mongo.ObjectId> = [],
 	) {}
 
-	populate(options?: mongo.FindOptions): Promise<Array<Instance> | null> {
-		return this.collection.find({ _id: { $in: this._ids } }, options).toArray();
+	clone(): ToManyRelationship<Schema, Instance> {
+		return new ToManyRelationship(this.collection, [...this._ids]);
+	}
+
+	push(ids: Array<mongo.ObjectId>): void {
+		for (const id of ids) {
+			if (this._ids.some((existing) => existing.equals(id))) continue;
+			this._ids.push(id);
+			const removed = this.removed.findIndex((existing) => existing.equals(id));
+			if (removed === -1) this.added.push(id);
+			else this.removed.splice(removed, 1);
+		}
+	}
+
+	remove(ids: Array<mongo.ObjectId>): void {
+		for (const id of ids) {
+			const index = this._ids.findIndex((existing) => existing.equals(id));
+			if (index === -1) continue;
+			this._ids.splice(index, 1);
+			const added = this.added.findIndex((existing) => existing.equals(id));
+			if (added === -1) this.removed.push(id);
+			else this.added.splice(added, 1);
+		}
+	}
+
+	async populate(
+		options?: PopulateOptions,
+		session?: mongo.ClientSession,
+	): Promise<Array<Instance>> {
+		if (this._ids.length === 0) return [];
+		const collection =
+			session && !session.hasEnded
+				? this.collection.withSession(session)
+				: this.collection;
+		const models = await collection
+			.find({ _id: { $in: this._ids } }, lookup(options))
+			.toArray();
+		return arrange(this._ids, models ?? [], options);
 	}
 }
 
@@ -151,7 +284,7 @@ export type ToManyRecord<
 	Instance extends CollectionModel<Schema>,
 > = {
 	relationship: ToManyRelationship<Schema, Instance>;
-	models: Array<Instance>;
+	models?: Array<Instance>;
 };
 
 export function ToManySchema<Schema extends z.ZodObject>(
@@ -175,50 +308,780 @@ export function toMany<
 		assert(typeof target === "object", "target should be an object");
 		assert(typeof key === "string", "key should be a string");
 
-		if (
-			!("__relationships__" in target) ||
-			!(target.__relationships__ instanceof EnhancedMap)
-		) {
-			target.__relationships__ = new EnhancedMap();
-		}
-		assert(
-			target.__relationships__ instanceof EnhancedMap,
-			"target.__relationships__ should be a EnhancedMap",
-		);
-
-		target.__relationships__.set(key, {
-			relationship: new ToManyRelationship(collection),
-		});
+		register(target, key, new ToManyRelationship(collection));
 
 		Object.defineProperty(target, key, {
 			configurable: false,
 			enumerable: true,
-			get: () => {
-				const value: ToManyRecord<Schema, Instance> = target.__relationships__.get(key);
+			get(this: any) {
+				const value: ToManyRecord<Schema, Instance> = this.__relationships__.get(key);
 				if (!value) return [];
 				return value.models ?? value.relationship._ids;
 			},
+			set(this: any, value: unknown) {
+				const current: ToManyRecord<Schema, Instance> = this.__relationships__.get(key);
+				assert(typeof current === "object", "current should be an object");
+				if (!Array.isArray(value)) throw TypeError("Invalid value for relationship");
+
+				const ids = value.map((item: unknown) => {
+					if (item instanceof mongo.ObjectId) return item;
+					if (item instanceof collection.model) return item._id;
+					throw TypeError("Invalid value for relationship");
+				});
+				current.relationship = new ToManyRelationship(collection, ids);
+				if (value.length > 0 && value.every((item) => item instanceof collection.model)) {
+					current.models = [...value];
+				} else {
+					delete current.models;
+				}
+			},
 		});
 	};
 }
 
+// Virtual One-To-Many or One-To-One Relationships, resolved by the toOne key of the other collection
+export class InverseRelationship<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+> {
+	constructor(
+		private readonly resolve: () => MongoCollection<Schema, Instance>,
+		public readonly foreignKey: string,
+		public readonly many: boolean,
+	) {}
+
+	get collection(): MongoCollection<Schema, Instance> {
+		return this.resolve();
+	}
+
+	clone(): InverseRelationship<Schema, Instance> {
+		return new InverseRelationship(this.resolve, this.foreignKey, this.many);
+	}
+
+	async populate(
+		_id: mongo.ObjectId,
+		options?: PopulateOptions,
+		session?: mongo.ClientSession,
+	): Promise<Array<Instance>> {
+		const collection =
+			session && !session.hasEnded
+				? this.collection.withSession(session)
+				: this.collection;
+		const limit = this.many ? options?.limit : 1;
+		const models = await collection
+			.find(
+				{ [this.foreignKey]: _id },
+				limit === undefined ? lookup(options) : { ...lookup(options), limit },
+			)
+			.toArray();
+		return models ?? [];
+	}
+}
+
+export type InverseRecord<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+> = {
+	relationship: InverseRelationship<Schema, Instance>;
+	model?: Instance | null;
+	models?: Array<Instance>;
+};
+
+export type HasManyRef<T> = T extends MongoCollection<infer _, infer Instance>
+	? Array<Instance>
+	: never;
+
+export type HasOneRef<T> = T extends MongoCollection<infer _, infer Instance>
+	? Instance | null
+	: never;
+
+function inverse<Schema extends z.ZodObject, Instance extends CollectionModel<Schema>>(
+	collection: () => MongoCollection<Schema, Instance>,
+	foreignKey: Extract<keyof z.infer<Schema>, string>,
+	many: boolean,
+) {
+	return (target: any, key: any) => {
+		assert(typeof target === "object", "target should be an object");
+		assert(typeof key === "string", "key should be a string");
+
+		register(target, key, new InverseRelationship(collection, foreignKey, many));
+
+		Object.defineProperty(target, key, {
+			configurable: false,
+			enumerable: true,
+			get(this: any) {
+				const value: InverseRecord<Schema, Instance> = this.__relationships__.get(key);
+				if (many) return value?.models ?? [];
+				return value?.model ?? null;
+			},
+			set(this: any, value: unknown) {
+				const current: InverseRecord<Schema, Instance> = this.__relationships__.get(key);
+				assert(typeof current === "object", "current should be an object");
+				const model = collection().model;
+
+				if (value === null || (Array.isArray(value) && value.length === 0)) {
+					delete current.model;
+					delete current.models;
+				} else if (
+					many &&
+					Array.isArray(value) &&
+					value.every((v) => v instanceof model)
+				) {
+					current.models = [...value];
+				} else if (!many && value instanceof model) {
+					current.model = value;
+				} else {
+					throw TypeError("Invalid value for relationship");
+				}
+			},
+		});
+	};
+}
+
+/**
+ * Declares a virtual property holding the models of another collection
+ * whose toOne relationship references this model.
+ * @param collection {() => MongoCollection<Schema, Instance>} The other collection, resolved lazily.
+ * @param foreignKey {string} The key of the toOne relationship in the other collection.
+ * @note The property is not stored in the document; populate it with `model.populate(key)`.
+ * @example
+ * class UserModel extends Model<UserSchema> {
+ *     @hasMany(() => Posts, "author")
+ *     posts: HasManyRef<typeof Posts> = [];
+ * }
+ */
+export function hasMany<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+>(
+	collection: () => MongoCollection<Schema, Instance>,
+	foreignKey: Extract<keyof z.infer<Schema>, string>,
+) {
+	return inverse(collection, foreignKey, true);
+}
+
+/**
+ * Declares a virtual property holding the model of another collection
+ * whose toOne relationship references this model.
+ * @param collection {() => MongoCollection<Schema, Instance>} The other collection, resolved lazily.
+ * @param foreignKey {string} The key of the toOne relationship in the other collection.
+ * @note The property is not stored in the document; populate it with `model.populate(key)`.
+ * @example
+ * class UserModel extends Model<UserSchema> {
+ *     @hasOne(() => Profiles, "user")
+ *     profile: HasOneRef<typeof Profiles> = null;
+ * }
+ */
+export function hasOne<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+>(
+	collection: () => MongoCollection<Schema, Instance>,
+	foreignKey: Extract<keyof z.infer<Schema>, string>,
+) {
+	return inverse(collection, foreignKey, false);
+}
+
+function compileSearch<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+>(
+	schema: Schema,
+	search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+): CompiledPredicate {
+	if (search instanceof Query) return { filter: search.filter, exact: true };
+	if (typeof search === "function") return compilePredicate(search, schema);
+	return { filter: search === undefined ? {} : encode(search), exact: true };
+}
+
+function seed<Schema extends z.ZodObject>(filter: Data | Query<z.infer<Schema>>): Data {
+	const seeded: Data = {};
+	const entries = Object.entries(filter instanceof Query ? filter.filter : filter);
+	for (const [key, condition] of entries) {
+		if (key.startsWith("$") || key.includes(".")) continue;
+		if (!(filter instanceof Query)) {
+			seeded[key] = condition;
+		} else if (RecordLike(condition) && "$eq" in condition) {
+			seeded[key] = decode(condition.$eq);
+		}
+	}
+	return seeded;
+}
+
+function document<Schema extends z.ZodObject>(
+	schema: Schema,
+	model: CollectionModel<Schema>,
+): Data {
+	const data: Data = model.toJSON();
+	const entries = Object.keys(schema.shape)
+		.filter((key) => data[key] !== undefined)
+		.map((key) => [key, data[key]]);
+	return { ...encode(Object.fromEntries(entries)), _id: model._id };
+}
+
+type PendingUpdate<Instance> = {
+	before: Instance;
+	model: Instance;
+	filter: mongo.Filter<Data>;
+	diff: mongo.UpdateFilter<Record<string, any>>;
+};
+
+function scoped(
+	filter: mongo.Filter<Data>,
+	softDelete: boolean,
+	withDeleted?: boolean,
+): mongo.Filter<Data> {
+	if (!softDelete || withDeleted) return filter;
+	if (Object.keys(filter).length === 0) return { deletedAt: null };
+	return { $and: [filter, { deletedAt: null }] };
+}
+
+type SortKey = [key: string, direction: -1 | 1];
+
+// an opaque cursor of the sort values of a model, ending with its _id
+function bookmark(model: CollectionModel<any>, keys: Array<SortKey>): string {
+	const values = keys.map(([key]) =>
+		encode(key.split(".").reduce<any>((value, part) => value?.[part], model) ?? null),
+	);
+	return Buffer.from(mongo.BSON.EJSON.stringify(values, { relaxed: false })).toString(
+		"base64url",
+	);
+}
+
+// the models sorted after (1) or before (-1) the cursor
+function keyset(
+	keys: Array<SortKey>,
+	cursor: string,
+	direction: -1 | 1,
+): mongo.Filter<Data> {
+	let values: unknown;
+	try {
+		values = mongo.BSON.EJSON.parse(Buffer.from(cursor, "base64url").toString());
+	} catch {
+		values = null;
+	}
+	if (!Array.isArray(values) || values.length !== keys.length) {
+		throw new TypeError(`Invalid pagination cursor: ${cursor}`);
+	}
+
+	// ties on the leading keys are broken by the following key,
+	// and nulls (or missing values) sort before every other value
+	const branches: Array<mongo.Filter<Data>> = [];
+	for (const [index, [key, order]] of keys.entries()) {
+		const ties = Object.fromEntries(
+			keys.slice(0, index).map(([tied], i) => [tied, values[i]]),
+		);
+		const value = values[index];
+		if (order === direction) {
+			const beyond = value === null ? { $ne: null } : { $gt: value };
+			branches.push({ ...ties, [key]: beyond });
+		} else if (value !== null) {
+			branches.push({ ...ties, $or: [{ [key]: { $lt: value } }, { [key]: null }] });
+		}
+	}
+	return { $or: branches };
+}
+
+function extend(
+	diff: mongo.UpdateFilter<Record<string, any>>,
+	operator: "$set" | "$inc" | "$addToSet" | "$pull",
+	fields: Record<string, any>,
+): void {
+	// the server rejects empty operators
+	if (Object.keys(fields).length === 0) return;
+	diff[operator] = { ...diff[operator], ...fields };
+}
+
+function relate(
+	model: CollectionModel<any>,
+	diff: mongo.UpdateFilter<Record<string, any>>,
+): void {
+	if (!(model.__relationships__ instanceof EnhancedMap)) return;
+	for (const [key, { relationship }] of model.__relationships__) {
+		if (!(relationship instanceof ToManyRelationship)) continue;
+		const { added, removed } = relationship;
+		// both additions and removals cannot be written in one update, so the array is rewritten
+		if (added.length > 0 === removed.length > 0) continue;
+
+		for (const operator of ["$push", "$set"] as const) {
+			const fields: Record<string, any> | undefined = diff[operator];
+			if (!fields || !(key in fields)) continue;
+			delete fields[key];
+			if (Object.keys(fields).length === 0) delete diff[operator];
+		}
+		if (added.length > 0) extend(diff, "$addToSet", { [key]: { $each: added } });
+		else extend(diff, "$pull", { [key]: { $in: removed } });
+	}
+}
+
+type PopulateNode = { options: PopulateOptions; children: PopulateTree };
+type PopulateTree = Map<string, PopulateNode>;
+
+function tree(populate: Array<Populate<any>>): PopulateTree {
+	const root: PopulateTree = new Map();
+	for (const entry of populate) {
+		const { path, ...options } =
+			typeof entry === "object" ? entry : { path: String(entry) };
+		const keys = String(path).split(".");
+		let branch = root;
+		keys.forEach((key, index) => {
+			const node = branch.get(key) ?? { options: {}, children: new Map() };
+			if (index === keys.length - 1) node.options = options;
+			branch.set(key, node);
+			branch = node.children;
+		});
+	}
+	return root;
+}
+
+async function prefetch(
+	models: Array<CollectionModel<any>>,
+	populate: Array<Populate<any>> | PopulateTree,
+	session?: mongo.ClientSession,
+): Promise<void> {
+	const paths = populate instanceof Map ? populate : tree(populate);
+	type RelationshipRecord =
+		| ToOneRecord<any, any>
+		| ToManyRecord<any, any>
+		| InverseRecord<any, any>;
+	type Group = {
+		collection: MongoCollection<any, any>;
+		field: string;
+		options: PopulateOptions;
+		ids: Array<mongo.ObjectId>;
+		entries: Array<{
+			record: RelationshipRecord;
+			node: PopulateNode;
+			owner: mongo.ObjectId;
+		}>;
+	};
+	// one query per related collection, key and options, shared by every requested key
+	const groups = new Map<string, Group>();
+	const collections: Array<MongoCollection<any, any>> = [];
+	const related = new Map<PopulateNode, Set<CollectionModel<any>>>();
+
+	for (const [key, node] of paths) {
+		const { limit: _, ...options } = node.options;
+		// nested paths need the relationships of the related models to be loaded
+		if (options.select) options.select = [...options.select, ...node.children.keys()];
+		related.set(node, new Set());
+
+		for (const model of models) {
+			if (!(model.__relationships__ instanceof EnhancedMap)) continue;
+			const record: RelationshipRecord | undefined = model.__relationships__.get(key);
+			if (!record) continue;
+
+			if ("model" in record && record.model) {
+				related.get(node)?.add(record.model);
+				continue;
+			}
+			if ("models" in record && record.models) {
+				for (const model of record.models) related.get(node)?.add(model);
+				continue;
+			}
+			const relationship = record.relationship;
+			let field = "_id";
+			let ids: Array<mongo.ObjectId> = [];
+			if (relationship instanceof InverseRelationship) {
+				// inverse relationships are found by the key referencing the model
+				field = relationship.foreignKey;
+				ids = [model._id];
+				if (options.select && !options.select.includes(field)) {
+					options.select = [...options.select, field];
+				}
+			} else if (relationship instanceof ToManyRelationship) {
+				ids = relationship._ids;
+			} else if (relationship._id) {
+				ids = [relationship._id];
+			}
+			if (ids.length === 0) continue;
+
+			const collection = relationship.collection;
+			if (!collections.includes(collection)) collections.push(collection);
+			const name = `${collections.indexOf(collection)}:${field}:${JSON.stringify(options)}`;
+			const group: Group = groups.get(name) ?? {
+				collection,
+				field,
+				options: { ...options },
+				ids: [],
+				entries: [],
+			};
+			groups.set(name, group);
+			group.ids.push(...ids);
+			group.entries.push({ record, node, owner: model._id });
+		}
+	}
+
+	for (const { collection, field, options, ids, entries } of groups.values()) {
+		const bound =
+			session && !session.hasEnded ? collection.withSession(session) : collection;
+		const fetched: Array<CollectionModel<any>> = [];
+		for await (const model of bound.find({ [field]: { $in: ids } }, lookup(options))) {
+			fetched.push(model);
+		}
+		const byId = new Map<string, Array<CollectionModel<any>>>();
+		for (const model of fetched) {
+			const value = model[field];
+			const id: mongo.ObjectId | undefined =
+				value instanceof mongo.ObjectId ? value : value?._id;
+			if (!id) continue;
+			byId.set(id.toHexString(), [...(byId.get(id.toHexString()) ?? []), model]);
+		}
+
+		for (const { record, node, owner } of entries) {
+			let models: Array<CollectionModel<any>>;
+			if (record.relationship instanceof InverseRelationship) {
+				const matches = byId.get(owner.toHexString()) ?? [];
+				const { limit } = node.options;
+				models = record.relationship.many
+					? matches.slice(0, limit ?? matches.length)
+					: matches.slice(0, 1);
+				if (record.relationship.many) (record as InverseRecord<any, any>).models = models;
+				else (record as InverseRecord<any, any>).model = models.at(0) ?? null;
+			} else if (record.relationship instanceof ToManyRelationship) {
+				models = arrange(record.relationship._ids, fetched, node.options);
+				(record as ToManyRecord<any, any>).models = models;
+			} else {
+				models = byId.get(record.relationship._id?.toHexString() ?? "") ?? [];
+				const model = models.at(0);
+				if (model) (record as ToOneRecord<any, any>).model = model;
+			}
+			for (const model of models) related.get(node)?.add(model);
+		}
+	}
+
+	for (const [node, models] of related) {
+		if (node.children.size === 0 || models.size === 0) continue;
+		await prefetch([...models], node.children, session);
+	}
+}
+
+function instantiate<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+>(
+	collection: MongoCollection<Schema, Instance>,
+	data: Data,
+	projected = false,
+): Instance {
+	// projected documents are partial, so they are neither upgraded nor written back
+	const upgraded = projected ? null : upgrade(collection, data);
+	const model = new collection.model(upgraded ?? data);
+	if (upgraded) {
+		upgrades.set(model, {
+			from: typeof data.__v === "number" ? data.__v : null,
+			stored: data,
+			upgraded,
+		});
+	}
+	return attach(model, collection.session);
+}
+
+// models read through a session view populate their relationships with its session
+function attach<M extends object>(model: M, session?: mongo.ClientSession): M {
+	if (session) {
+		Object.defineProperty(model, "__session__", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: session,
+		});
+	}
+	return model;
+}
+
+// a filter on models, as a filter on the full documents of change events
+function documented(filter: mongo.Filter<Data>): mongo.Filter<Data> {
+	return Object.fromEntries(
+		Object.entries(filter).map(([key, value]) => {
+			if (!key.startsWith("$")) return [`fullDocument.${key}`, value];
+			return [key, Array.isArray(value) ? value.map(documented) : value];
+		}),
+	);
+}
+
+type Upgrade = { from: number | null; stored: Data; upgraded: Data };
+// the stored version, stored document and upgraded document of models read from older documents
+const upgrades = new WeakMap<object, Upgrade>();
+
+// documents without `__v` are version 1, and are upgraded one version at a time
+function upgrade(collection: MongoCollection<any, any>, data: Data): Data | null {
+	const from = typeof data.__v === "number" ? data.__v : 1;
+	if (from >= collection.version) return null;
+
+	let upgraded = data;
+	for (const upgrader of collection.upgraders.slice(from - 1, collection.version - 1)) {
+		upgraded = upgrader(upgraded);
+	}
+	return { ...upgraded, _id: data._id, __v: collection.version };
+}
+
+// writes the upgraded document of a model back, unless it was written since it was read
+async function persist(
+	collection: MongoCollection<any, any>,
+	model: object,
+): Promise<void> {
+	const upgrade = upgrades.get(model);
+	if (!upgrade) return;
+	upgrades.delete(model);
+	// upgrades that fail the schema are hydrated, but never written
+	const parsed = await collection.schema.safeParseAsync(upgrade.upgraded);
+	if (!parsed.success) return;
+
+	await collection.collection.updateOne(
+		{ _id: upgrade.stored._id as mongo.ObjectId, __v: upgrade.from },
+		changes("", upgrade.stored, upgrade.upgraded).parse,
+		collection.session ? { session: collection.session } : {},
+	);
+}
+
+// the changes of an update; models upgraded on read are diffed from their stored document,
+// so that their upgrade is written with the update
+function delta<Instance extends CollectionModel<any>>(
+	collection: MongoCollection<any, Instance>,
+	before: Instance,
+	after: Instance,
+): mongo.UpdateFilter<Record<string, any>> {
+	const upgrade = upgrades.get(before);
+	const stored = upgrade
+		? new collection.model(upgrade.stored).toJSON()
+		: before.toJSON();
+	return changes("", stored, after.toJSON()).parse;
+}
+
+// a read-only model with only the selected keys, and its _id
+function narrow<Instance extends CollectionModel<any>, K extends string>(
+	model: Instance,
+	keys: Array<K>,
+): Selected<Instance, K> {
+	const selected = new Set<string>([...keys, "_id"]);
+	for (const key of Object.keys(model)) {
+		if (!selected.has(key)) Reflect.deleteProperty(model, key);
+	}
+	return Object.freeze(model);
+}
+
+type IndexKey = { [key: string]: mongo.IndexDirection };
+type DeclaredIndex = Omit<mongo.IndexDescription, "key"> & {
+	key: IndexKey;
+	name: string;
+};
+type ListedIndex = Data & { name: string; key: Data; weights?: Data; collation?: Data };
+
+// the declared index with its key, named as the server names it, e.g. `email_1_createdAt_-1`
+function declared(index: IndexDefinition): DeclaredIndex {
+	const description =
+		typeof index.key === "object"
+			? (index as Exclude<IndexDefinition, IndexKey>)
+			: { key: index as IndexKey };
+	const name = Object.entries(description.key)
+		.map(([key, direction]) => `${key}_${direction}`)
+		.join("_");
+	return { ...description, name: description.name ?? name };
+}
+
+// the key and weights of an index as the server lists them; text keys are stored as `_fts`
+function listed(index: DeclaredIndex): { key: Data; weights: Data | null } {
+	const key: Data = {};
+	const weights: Data = { ...index.weights };
+	let text = false;
+	for (const [field, direction] of Object.entries(index.key)) {
+		if (direction !== "text") {
+			key[field] = direction;
+			continue;
+		}
+		if (!text) Object.assign(key, { _fts: "text", _ftsx: 1 });
+		text = true;
+		weights[field] ??= 1;
+	}
+	return { key, weights: text ? weights : null };
+}
+
+const same = (a: unknown, b: unknown) =>
+	mongo.BSON.EJSON.stringify(a ?? null) === mongo.BSON.EJSON.stringify(b ?? null);
+const sorted = (data: Data | null) =>
+	data && Object.entries(data).sort(([a], [b]) => a.localeCompare(b));
+
+// whether an existing index matches the declared index, comparing the options it declares
+function matches(index: DeclaredIndex, existing: ListedIndex): boolean {
+	const { key, weights } = listed(index);
+	if (existing.name !== index.name || !same(key, existing.key)) return false;
+	if (weights && !same(sorted(weights), sorted(existing.weights ?? null))) return false;
+
+	const {
+		name: _name,
+		key: _key,
+		weights: _weights,
+		background: _background,
+		unique,
+		sparse,
+		hidden,
+		collation,
+		...options
+	} = index;
+	// flags are only listed when set
+	const flags = Object.entries({ unique, sparse, hidden });
+	if (flags.some(([flag, value]) => Boolean(value) !== Boolean(existing[flag]))) {
+		return false;
+	}
+	// collations are listed with every setting, so only the declared settings are compared
+	if (Boolean(collation) !== Boolean(existing.collation)) return false;
+	const settings = Object.entries(collation ?? {});
+	if (settings.some(([setting, value]) => existing.collation?.[setting] !== value)) {
+		return false;
+	}
+	const compared = new Set(Object.keys(options));
+	compared.add("partialFilterExpression").add("expireAfterSeconds");
+	return Array.from(compared).every((option) => {
+		return same((options as Data)[option], existing[option]);
+	});
+}
+
+type Unique = { fields: Array<string>; message: string; index: DeclaredIndex };
+type DuplicateKey = { index: string | null; keys: Array<string> };
+
+const uniqueMessage = (fields: Array<string>) =>
+	`${fields.join(", ")} must be unique${fields.length > 1 ? " together" : ""}`;
+
+// the unique index of a constraint, and the error of each of its fields
+function unique(constraint: UniqueConstraint): Unique {
+	const options =
+		typeof constraint === "object" && !Array.isArray(constraint)
+			? constraint
+			: { fields: constraint };
+	const fields = Array.isArray(options.fields) ? options.fields : [options.fields];
+	return {
+		fields,
+		message: options.message ?? uniqueMessage(fields),
+		index: {
+			key: Object.fromEntries(fields.map((field) => [field, 1 as const])),
+			name: options.name ?? fields.join("_"),
+			unique: true,
+			...(options.filter && { partialFilterExpression: encode(options.filter) }),
+			...(options.collation && { collation: options.collation }),
+		},
+	};
+}
+
+// the index and keys of a duplicate key error, e.g. `E11000 ... index: email dup key: ...`
+function duplicated(keyPattern: unknown, message: string | undefined): DuplicateKey {
+	return {
+		index: /index: (\S+) dup key/.exec(message ?? "")?.[1] ?? null,
+		keys: typeof keyPattern === "object" && keyPattern ? Object.keys(keyPattern) : [],
+	};
+}
+
+type Referrer = {
+	collection: MongoCollection<any, any>;
+	key: string;
+	onDelete: ReferentialAction;
+};
+// the relationships referencing each collection, shared with its session views
+const referrers = new WeakMap<CollectionParameters<any, any>, Array<Referrer>>();
+// the index sync started by defining each collection, shared with its session views
+const syncs = new WeakMap<CollectionParameters<any, any>, Promise<SyncIndexesResult>>();
+
+type Tally = { written: number };
+// the documents written in each dry-run migration session, counted by its collection views
+const tallies = new WeakMap<mongo.ClientSession, Tally>();
+const modified = (result: mongo.UpdateResult) =>
+	result.modifiedCount + result.upsertedCount;
+const found = (result: any) =>
+	result !== null && typeof result === "object" && "lastErrorObject" in result
+		? (result.lastErrorObject?.n ?? 0)
+		: result === null
+			? 0
+			: 1;
+const WRITES: Record<string, (result: any) => number> = {
+	insertOne: () => 1,
+	insertMany: (result: mongo.InsertManyResult) => result.insertedCount,
+	updateOne: modified,
+	updateMany: modified,
+	replaceOne: modified,
+	deleteOne: (result: mongo.DeleteResult) => result.deletedCount,
+	deleteMany: (result: mongo.DeleteResult) => result.deletedCount,
+	bulkWrite: (result: mongo.BulkWriteResult) =>
+		result.insertedCount +
+		result.modifiedCount +
+		result.deletedCount +
+		result.upsertedCount,
+	findOneAndUpdate: found,
+	findOneAndReplace: found,
+	findOneAndDelete: found,
+};
+
+// counts the documents written through the collection into the tally
+function tallied(collection: mongo.Collection, tally: Tally): mongo.Collection {
+	return new Proxy(collection, {
+		get(target, key, receiver) {
+			const value = Reflect.get(target, key, receiver);
+			if (typeof key !== "string" || !Object.hasOwn(WRITES, key)) return value;
+			const count = WRITES[key] as (result: unknown) => number;
+			return async (...args: Array<unknown>) => {
+				const result = await value.apply(target, args);
+				tally.written += count(result);
+				return result;
+			};
+		},
+	});
+}
+
 class MongoCollection<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
 > {
 	readonly collection!: mongo.Collection;
+	/** The result of creating the declared indexes when the collection was defined. */
+	readonly indexed!: Promise<SyncIndexesResult>;
 	readonly model!: ModelConstructor<Schema, Instance>;
-	private readonly schema: Schema;
+	readonly session?: mongo.ClientSession;
+	readonly schema!: Schema;
+	readonly softDelete!: boolean;
+	readonly upgraders!: ReadonlyArray<DocumentUpgrader>;
+	readonly version!: number;
+	readonly writeUpgrades!: boolean;
+	readonly #db: mongo.Db;
+	readonly #params: CollectionParameters<Schema, Instance>;
+	readonly #referrers: Array<Referrer>;
+	readonly #timestamps: { createdAt: string; updatedAt: string } | null;
+	readonly #uniques: Array<Unique>;
 
-	constructor(db: mongo.Db, params: CollectionParameters<Schema, Instance>) {
+	constructor(
+		db: mongo.Db,
+		params: CollectionParameters<Schema, Instance>,
+		session?: mongo.ClientSession,
+	) {
 		const name = params.name;
-		this.schema = params.schema;
+		const version = params.version ?? 1;
+		const upgraders = params.upgraders ?? [];
+		assert(
+			Number.isInteger(version) && version >= 1,
+			"version should be a positive integer",
+		);
+		assert(upgraders.length >= version - 1, `${name} has no upgrader for each version`);
+		assert(params.versionKey !== "__v", "versionKey cannot be __v, the schema version");
+		this.#db = db;
+		this.#params = params;
+		this.#referrers = referrers.get(params) ?? [];
+		referrers.set(params, this.#referrers);
+		const timestamps = params.timestamps === true ? {} : params.timestamps || null;
+		this.#timestamps = timestamps && {
+			createdAt: timestamps.createdAt ?? "createdAt",
+			updatedAt: timestamps.updatedAt ?? "updatedAt",
+		};
+		const uniques = (params.uniques ?? []).map(unique);
+		this.#uniques = Array.from(
+			new Map(uniques.map((constraint) => [constraint.index.name, constraint])).values(),
+		);
 
+		const tally = session && tallies.get(session);
 		Object.defineProperty(this, "collection", {
 			writable: false,
 			configurable: false,
 			enumerable: false,
-			value: db.collection(name, params),
+			value: tally
+				? tallied(db.collection(name, params), tally)
+				: db.collection(name, params),
 		});
 		Object.defineProperty(this, "model", {
 			writable: false,
@@ -226,9 +1089,77 @@ class MongoCollection<
 			enumerable: false,
 			value: params.model,
 		});
+		Object.defineProperty(this, "schema", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: params.schema,
+		});
+		Object.defineProperty(this, "softDelete", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: params.softDelete ?? false,
+		});
+		Object.defineProperty(this, "upgraders", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: upgraders,
+		});
+		Object.defineProperty(this, "version", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: version,
+		});
+		Object.defineProperty(this, "writeUpgrades", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: params.writeUpgrades ?? false,
+		});
+		if (!syncs.has(params)) {
+			const synced: SyncIndexesResult = {
+				acknowledged: true,
+				created: [],
+				dropped: [],
+				stale: [],
+				unchanged: [],
+			};
+			syncs.set(
+				params,
+				this.#indexes().length > 0 ? this.syncIndexes() : Promise.resolve(synced),
+			);
+		}
+		Object.defineProperty(this, "indexed", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: syncs.get(params),
+		});
 
-		for (const unique of Array.from(new Set(params.uniques))) {
-			this.collection.createIndex({ [unique]: 1 }, { unique: true, name: unique });
+		if (session) {
+			Object.defineProperty(this, "session", {
+				writable: false,
+				configurable: false,
+				enumerable: false,
+				value: session,
+			});
+			return;
+		}
+
+		const relationships = params.model.prototype.__relationships__;
+		if (relationships instanceof EnhancedMap) {
+			for (const [key, { relationship }] of relationships) {
+				if (!(relationship instanceof ToOneRelationship) || !relationship.onDelete)
+					continue;
+				relationship.collection.#referrers.push({
+					collection: this,
+					key,
+					onDelete: relationship.onDelete,
+				});
+			}
 		}
 	}
 
@@ -316,9 +1247,42 @@ class MongoCollection<
 		return this.collection.writeConcern;
 	}
 
+	/**
+	 * Starts an aggregation pipeline over this collection.
+	 * @param options {AggregateOptions | undefined} Optional settings for the command.
+	 * @return {Aggregate<z.infer<Schema> & { _id: mongo.ObjectId }>} The pipeline, with no stages.
+	 * @note With `softDelete` on the collection, soft-deleted models are excluded unless `withDeleted` is set.
+	 * @note Results are decoded, but not hydrated into models unless `as` is called.
+	 * @example
+	 * const totals = await Orders.aggregate()
+	 *     .match({ status: 'paid' })
+	 *     .group({ _id: '$email', total: { $sum: '$total' } })
+	 *     .toArray();
+	 */
+	aggregate(
+		options?: AggregateOptions,
+	): Aggregate<z.infer<Schema> & { _id: mongo.ObjectId }> {
+		const { withDeleted, ...aggregateOptions } = options ?? {};
+		const pipeline =
+			this.softDelete && !withDeleted ? [{ $match: { deletedAt: null } }] : [];
+		return new Aggregate(
+			{
+				collection: this.collection,
+				session: this.session,
+				// models of this collection are hydrated as its reads are
+				hydrate: (model, document, projected) =>
+					model === this.model
+						? instantiate(this, decode(document), projected)
+						: attach(new model(decode(document)), this.session),
+			},
+			pipeline,
+			aggregateOptions,
+		);
+	}
+
 	/**
 	 * Returns the exact count of models matching the filter.
-	 * @param filter {Data | undefined} The filter to find matching models.
+	 * @param filter {Data | Query<z.infer<Schema>> | undefined} The filter to find matching models.
 	 * @param options {CountOptions | undefined} Optional settings for the command.
 	 * @note
 	 * Filter matches only models with the exact key-value pairs passed.
@@ -326,7 +1290,10 @@ class MongoCollection<
 	 * @example
 	 * const comments = await PostComments.count({ parent: <parent-identifier> })
 	 */
-	async count(filter?: Data, options?: CountOptions): Promise<number>;
+	async count(
+		filter?: Data | Query<z.infer<Schema>>,
+		options?: CountOptions,
+	): Promise<number>;
 	/**
 	 * Returns the exact count of models matching the predicate.
 	 * @param predicate {QueryPredicate<Schema, Instance> | undefined} The predicate to find matching models.
@@ -339,14 +1306,23 @@ class MongoCollection<
 		options?: CountOptions,
 	): Promise<number>;
 	async count(
-		search?: Data | QueryPredicate<Schema, Instance>,
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
 		options?: CountOptions,
 	): Promise<number> {
-		if (search === undefined) {
-			return this.collection.estimatedDocumentCount(options as any);
+		const { withDeleted, ...countOptions } = options ?? {};
+		const scope = this.softDelete && !withDeleted;
+		if (search === undefined && !this.session && !scope) {
+			return this.collection.estimatedDocumentCount(countOptions as any);
 		}
-		if (typeof search === "object") {
-			return this.collection.countDocuments(encode(search) as any, options as any);
+		if (search === undefined || typeof search === "object") {
+			return this.collection.countDocuments(
+				scoped(
+					search instanceof Query ? search.filter : encode(search ?? {}),
+					this.softDelete,
+					withDeleted,
+				),
+				this.#withSession(countOptions) as any,
+			);
 		}
 		return this.find(search, options).count();
 	}
@@ -365,37 +1341,145 @@ class MongoCollection<
 
 	/**
 	 * Deletes any model that matching the filter from this collection.
-	 * @param filter {Data} The filter to find matching models.
-	 * @param options {mongo.FindOptions | undefined} Optional settings for the command.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find matching models.
+	 * @param options {BulkOptions | undefined} Optional settings for the command.
+	 * @return {Promise<DeleteManyResult<Schema, Instance, Options>>} The deleted models,
+	 * or `null` if none match; the number of deleted models if `returnModels` is `false`;
+	 * `errors` if a relationship with `onDelete: "restrict"` references a matching model,
+	 * in which case no model is deleted, or if `beforeDelete` aborts.
 	 * @note
 	 * Filter matches only models with the exact key-value pairs passed.
 	 * For a more dynamic query, use a predicate.
+	 * @note
+	 * Models are deleted in `bulkWrite` batches of `batchSize` (default `1000`),
+	 * each checked by `beforeDelete` right before it is deleted; an abort stops the deletion
+	 * there, leaving earlier batches deleted.
+	 * With `returnModels: false`, a filter is deleted entirely server-side.
+	 * @note
+	 * With `softDelete` on the collection, models are kept with a `deletedAt` timestamp,
+	 * and excluded from queries until restored. See `restore` and `purge`.
 	 * @example
 	 * const comments = await PostComments.deleteMany({ parent: <parent-identifier> })
+	 * const count = await Sessions.deleteMany({ expired: true }, { returnModels: false })
 	 */
-	async deleteMany(
-		filter: Data,
-		options?: mongo.FindOptions,
-	): Promise<Array<Instance> | null>;
+	async deleteMany<Options extends BulkOptions>(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: Options,
+	): Promise<DeleteManyResult<Schema, Instance, Options>>;
 	/**
 	 * Deletes any model that matching the predicate from this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find matching models.
-	 * @param options {mongo.FindOptions | undefined} Optional settings for the command.
+	 * @param options {BulkOptions | undefined} Optional settings for the command.
+	 * @return {Promise<DeleteManyResult<Schema, Instance, Options>>} The deleted models,
+	 * or `null` if none match; the number of deleted models if `returnModels` is `false`;
+	 * `errors` if a relationship with `onDelete: "restrict"` references a matching model,
+	 * in which case no model is deleted, or if `beforeDelete` aborts.
+	 * @note
+	 * Models are deleted in `bulkWrite` batches of `batchSize` (default `1000`),
+	 * each checked by `beforeDelete` right before it is deleted; an abort stops the deletion
+	 * there, leaving earlier batches deleted.
+	 * @note
+	 * With `softDelete` on the collection, models are kept with a `deletedAt` timestamp,
+	 * and excluded from queries until restored. See `restore` and `purge`.
 	 * @example
 	 * const comments = await PostComments.deleteMany((comment) => comment.likes >= 30)
 	 */
-	async deleteMany(
+	async deleteMany<Options extends BulkOptions>(
 		predicate: QueryPredicate<Schema, Instance>,
-		options?: mongo.FindOptions,
-	): Promise<Array<Instance> | null>;
+		options?: Options,
+	): Promise<DeleteManyResult<Schema, Instance, Options>>;
 	async deleteMany(
-		search: Data | QueryPredicate<Schema, Instance>,
-		options?: mongo.DeleteOptions,
-	): Promise<Array<Instance> | null> {
+		search: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+		options?: BulkOptions,
+	): Promise<Array<Instance> | number | DeleteFailure<Schema> | null> {
+		const { batchSize = 1000, returnModels = true, ...bulkOptions } = options ?? {};
+
+		const compiled = compileSearch(this.schema, search);
+		const hooked = this.#hooked("beforeDelete") || this.#hooked("afterDelete");
+		const referenced = this.#referrers.length > 0;
+		const deletedAt = new Date();
+		if (!returnModels && compiled.exact && !hooked && !referenced) {
+			const filter = scoped(compiled.filter, this.softDelete);
+			if (this.softDelete) {
+				const deleted = await this.collection.updateMany(
+					filter,
+					{ $set: { deletedAt } },
+					this.#withSession(bulkOptions),
+				);
+				return deleted.modifiedCount;
+			}
+			const deleted = await this.collection.deleteMany(
+				filter,
+				this.#withSession(bulkOptions),
+			);
+			return deleted.deletedCount;
+		}
+
 		const models: Array<Instance> = [];
+		let count = 0;
+		const flush = async (batch: Array<Instance>): Promise<DeleteFailure | null> => {
+			if (batch.length === 0) return null;
+			for (const model of batch) {
+				const aborted = await this.#hook("beforeDelete", model);
+				if (aborted) return { acknowledged: false, errors: aborted };
+			}
+			const deleted = await this.#delete(
+				batch.map((model) => model._id),
+				async (collection) => {
+					const result = await collection.collection.bulkWrite(
+						batch.map((model) =>
+							collection.softDelete
+								? {
+										updateOne: {
+											filter: { _id: model._id },
+											update: { $set: { deletedAt } },
+										},
+									}
+								: { deleteOne: { filter: { _id: model._id } } },
+						),
+						collection.#withSession(bulkOptions),
+					);
+					return collection.softDelete ? result.modifiedCount : result.deletedCount;
+				},
+			);
+			if (typeof deleted !== "number") return deleted;
+			count += deleted;
+			for (const model of batch) {
+				if (this.softDelete) Object.assign(model, { deletedAt });
+				await this.#hook("afterDelete", model);
+			}
+			if (returnModels) models.push(...batch);
+			return null;
+		};
+
+		// every model is checked by its restrictions before any hook runs or model is deleted,
+		// a batch of ids at a time, so the matches are never held at once
+		if (this.#referrers.some(({ onDelete }) => onDelete !== "setNull")) {
+			const seen = new Set<string>();
+			let ids: Array<mongo.ObjectId> = [];
+			for await (const model of this.find(search)) {
+				ids.push(model._id);
+				if (ids.length < batchSize) continue;
+				const restricted = await this.#restricted(ids, seen);
+				if (restricted) return restricted;
+				ids = [];
+			}
+			const restricted = ids.length > 0 ? await this.#restricted(ids, seen) : null;
+			if (restricted) return restricted;
+		}
+
+		let batch: Array<Instance> = [];
 		for await (const model of this.find(search)) {
-			if (await this.deleteOne(model._id, options)) models.push(model);
+			batch.push(model);
+			if (batch.length < batchSize) continue;
+			const failure = await flush(batch);
+			if (failure) return failure;
+			batch = [];
 		}
+		const failure = await flush(batch);
+		if (failure) return failure;
+
+		if (!returnModels) return count;
 		return models.length > 0 ? models : null;
 	}
 
@@ -403,42 +1487,61 @@ class MongoCollection<
 	 * Deletes the model with the matching `mongo.ObjectId` from this collection.
 	 * @param id {mongo.ObjectId} The id of the model to delete.
 	 * @param options {mongo.DeleteOptions | undefined} Optional settings for the command.
-	 * @return {Instance | null} The deleted model, or `null` if `id` does not exist in this collection.
+	 * @return {Instance | DeleteFailure | null} The deleted model, or `null` if `id` does not exist in this collection;
+	 * `errors` if `beforeDelete` aborts or a relationship with `onDelete: "restrict"` references the model.
+	 * @note
+	 * With `softDelete` on the collection, models are kept with a `deletedAt` timestamp,
+	 * and excluded from queries until restored. See `restore` and `purge`.
 	 * @example
 	 * const user = await Users.deleteOne(<id>)
 	 */
 	async deleteOne(
 		id: mongo.ObjectId,
 		options?: mongo.DeleteOptions,
-	): Promise<Instance | null>;
+	): Promise<Instance | DeleteFailure<Schema> | null>;
 	/**
 	 * Deletes the first model to match the filter from this collection.
-	 * @param filter {Data} The filter to find the model to delete.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find the model to delete.
 	 * @param options {mongo.DeleteOptions | undefined} Optional settings for the command.
-	 * @return {Instance | null} The deleted model, or `null` if no models match the filter.
+	 * @return {Instance | DeleteFailure | null} The deleted model, or `null` if no models match the filter;
+	 * `errors` if `beforeDelete` aborts or a relationship with `onDelete: "restrict"` references the model.
 	 * @note
 	 * Filter matches only models with the exact key-value pairs passed.
 	 * For a more dynamic query, use a predicate.
+	 * @note
+	 * With `softDelete` on the collection, models are kept with a `deletedAt` timestamp,
+	 * and excluded from queries until restored. See `restore` and `purge`.
 	 * @example
 	 * const user = await Users.deleteOne({ email: 'email@email.com' })
 	 */
-	async deleteOne(filter: Data, options?: mongo.DeleteOptions): Promise<Instance | null>;
+	async deleteOne(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: mongo.DeleteOptions,
+	): Promise<Instance | DeleteFailure<Schema> | null>;
 	/**
 	 * Deletes the first model to match the predicate from this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find the model to delete.
 	 * @param options {mongo.DeleteOptions | undefined} Optional settings for the command.
-	 * @return {Instance | null} The deleted model, or `null` if no models passes the predicate.
+	 * @return {Instance | DeleteFailure | null} The deleted model, or `null` if no models passes the predicate;
+	 * `errors` if `beforeDelete` aborts or a relationship with `onDelete: "restrict"` references the model.
+	 * @note
+	 * With `softDelete` on the collection, models are kept with a `deletedAt` timestamp,
+	 * and excluded from queries until restored. See `restore` and `purge`.
 	 * @example
 	 * const user = await Users.deleteOne((user) => user.attempts >= 10)
 	 */
 	async deleteOne(
 		predicate: QueryPredicate<Schema, Instance>,
 		options?: mongo.DeleteOptions,
-	): Promise<Instance | null>;
+	): Promise<Instance | DeleteFailure<Schema> | null>;
 	async deleteOne(
-		search: mongo.ObjectId | Data | QueryPredicate<Schema, Instance>,
+		search:
+			| mongo.ObjectId
+			| Data
+			| Query<z.infer<Schema>>
+			| QueryPredicate<Schema, Instance>,
 		options?: mongo.DeleteOptions,
-	): Promise<Instance | null> {
+	): Promise<Instance | DeleteFailure<Schema> | null> {
 		let model: Instance | null;
 		if (search instanceof mongo.ObjectId) {
 			model = await this.findOne(search);
@@ -452,9 +1555,32 @@ class MongoCollection<
 			return null;
 		}
 
-		const deleted = await this.collection.deleteOne({ _id: model._id }, options);
-		if (!deleted.acknowledged) return null;
+		const restricted = await this.#restricted([model._id]);
+		if (restricted) return restricted;
+		const aborted = await this.#hook("beforeDelete", model);
+		if (aborted) return { acknowledged: false, errors: aborted };
 
+		const deletedAt = new Date();
+		const deleted = await this.#delete([model._id], async (collection) => {
+			if (collection.softDelete) {
+				const result = await collection.collection.updateOne(
+					{ _id: model._id },
+					{ $set: { deletedAt } },
+					collection.#withSession(options),
+				);
+				return result.modifiedCount;
+			}
+			const result = await collection.collection.deleteOne(
+				{ _id: model._id },
+				collection.#withSession(options),
+			);
+			return result.deletedCount;
+		});
+		if (typeof deleted !== "number") return deleted;
+		if (deleted === 0) return null;
+		if (this.softDelete) Object.assign(model, { deletedAt });
+
+		await this.#hook("afterDelete", model);
 		return model;
 	}
 
@@ -488,19 +1614,90 @@ class MongoCollection<
 		await this.collection.dropIndex(name, options);
 	}
 
+	/**
+	 * Creates the declared `uniques` and `indexes` missing from this collection,
+	 * optionally dropping stale indexes.
+	 * @param options {SyncIndexesOptions | undefined} Whether to drop stale indexes, or only plan.
+	 * @return {Promise<SyncIndexesResult>} The names of the created, dropped, stale and unchanged
+	 * indexes, with `errors` object if `acknowledged` is `false`.
+	 * @note
+	 * An index is stale if it is not declared, or differs from the declared index of its name or key.
+	 * Without `dropStale`, stale indexes are kept, and declared indexes they conflict with are not created.
+	 * @note The `_id` index is never dropped.
+	 * @example
+	 * const Users = db.collection({
+	 *     name: 'users',
+	 *     schema: UserSchema,
+	 *     model: UserModel,
+	 *     indexes: [
+	 *         { email: 1, createdAt: -1 },
+	 *         { key: { createdAt: 1 }, expireAfterSeconds: 3600, partialFilterExpression: { attempts: 0 } },
+	 *     ],
+	 * });
+	 * const plan = await Users.syncIndexes({ dropStale: true, dryRun: true });
+	 * if (plan.acknowledged) console.log(plan.created, plan.dropped);
+	 */
+	async syncIndexes(options?: SyncIndexesOptions): Promise<SyncIndexesResult> {
+		const { dropStale = false, dryRun = false } = options ?? {};
+		const plan: IndexPlan = { created: [], dropped: [], stale: [], unchanged: [] };
+		try {
+			const existing = await this.#listIndexes();
+			const create: Array<DeclaredIndex> = [];
+			const counterparts = new Set<string>();
+			for (const index of this.#indexes()) {
+				const { key } = listed(index);
+				const counterpart =
+					existing.find(({ name }) => name === index.name) ??
+					existing.find((other) => same(key, other.key));
+				if (!counterpart) {
+					create.push(index);
+					continue;
+				}
+
+				counterparts.add(counterpart.name);
+				if (matches(index, counterpart)) {
+					plan.unchanged.push(index.name);
+				} else if (dropStale) {
+					plan.dropped.push(counterpart.name);
+					create.push(index);
+				} else {
+					plan.stale.push(counterpart.name);
+				}
+			}
+			for (const { name } of existing) {
+				if (name === "_id_" || counterparts.has(name)) continue;
+				(dropStale ? plan.dropped : plan.stale).push(name);
+			}
+			plan.created = create.map(({ name }) => name);
+			if (dryRun) return { acknowledged: true, ...plan };
+
+			for (const name of plan.dropped) {
+				await this.collection.dropIndex(name);
+			}
+			if (create.length > 0) await this.collection.createIndexes(create);
+			return { acknowledged: true, ...plan };
+		} catch {
+			return {
+				acknowledged: false,
+				errors: { general: "Failed to Sync Indexes" },
+				...plan,
+			};
+		}
+	}
+
 	/**
 	 * Checks if a record exists in this collection.
 	 * @param id {mongo.ObjectId} The id of the record.
-	 * @param options {mongo.FindOneOptions | undefined} Optional settings for the command.
+	 * @param options {ExistsOptions | undefined} Optional settings for the command.
 	 * @returns {Promise<boolean>} A boolean, representing whether the record exists.
 	 * @example
 	 * const exists = await Users.exists(<id>)
 	 */
-	async exists(id: mongo.ObjectId, options?: mongo.FindOneOptions): Promise<boolean>;
+	async exists(id: mongo.ObjectId, options?: ExistsOptions): Promise<boolean>;
 	/**
 	 * Checks if a record exists in this collection.
-	 * @param filter {Data} A filter to query for
-	 * @param options {mongo.FindOneOptions | undefined} Optional settings for the command.
+	 * @param filter {Data | Query<z.infer<Schema>>} A filter to query for
+	 * @param options {ExistsOptions | undefined} Optional settings for the command.
 	 * @returns {Promise<boolean>} A boolean, representing whether the record exists.
 	 * @note
 	 * Filter matches only models with the exact key-value pairs passed.
@@ -508,22 +1705,29 @@ class MongoCollection<
 	 * @example
 	 * const exists = await Users.exists({ email: "<email>" })
 	 */
-	async exists(filter: Data, options?: mongo.FindOneOptions): Promise<boolean>;
+	async exists(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: ExistsOptions,
+	): Promise<boolean>;
 	/**
 	 * Checks if a record exists in this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} A predicate to match against.
-	 * @param options {mongo.FindOneOptions | undefined} Optional settings for the command.
+	 * @param options {ExistsOptions | undefined} Optional settings for the command.
 	 * @returns {Promise<boolean>} A boolean, representing whether the record exists.
 	 * @example
 	 * const exists = await Users.exists((user) => user.email === "<email>")
 	 */
 	async exists(
 		predicate: QueryPredicate<Schema, Instance>,
-		options?: mongo.FindOneOptions,
+		options?: ExistsOptions,
 	): Promise<boolean>;
 	async exists(
-		search: mongo.ObjectId | Data | QueryPredicate<Schema, Instance>,
-		options?: mongo.FindOneOptions,
+		search:
+			| mongo.ObjectId
+			| Data
+			| Query<z.infer<Schema>>
+			| QueryPredicate<Schema, Instance>,
+		options?: ExistsOptions,
 	): Promise<boolean> {
 		if (search instanceof mongo.ObjectId) {
 			return (await this.findOne(search, options)) !== null;
@@ -533,7 +1737,7 @@ class MongoCollection<
 
 	/**
 	 * Creates a cursor for a query that can be used to iterate over results from the database.
-	 * @param search {Data | QueryPredicate<Schema, Instance>} The parameters for the cursor query.
+	 * @param search {Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>} The parameters for the cursor query.
 	 * @param options {mongo.FindOptions} Optional settings for the command.
 	 * @return {FindCursor<Schema, Instance>} A FindCursor for the matching models.
 	 * @example
@@ -543,7 +1747,7 @@ class MongoCollection<
 	 * }
 	 */
 	find(
-		search?: Data | QueryPredicate<Schema, Instance>,
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
 		options?: FindOptions<Schema>,
 	): FindCursor<Schema, Instance> {
 		return new FindCursor(this, search, options);
@@ -561,7 +1765,7 @@ class MongoCollection<
 	async findMany(): Promise<Array<Instance> | null>;
 	/**
 	 * Fetches multiple models from this collection.
-	 * @param filter {Data} The filter to find models to fetch.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find models to fetch.
 	 * @param options {FindOptions<Schema>} Optional setting for this command.
 	 * @return {Promise<Array<Instance> | null>} The models matching the filter,
 	 * or null if none matches.
@@ -572,7 +1776,7 @@ class MongoCollection<
 	 * const user = await Users.findMany({ attempts: 3 });
 	 */
 	async findMany(
-		filter: Data,
+		filter: Data | Query<z.infer<Schema>>,
 		options?: FindOptions<Schema>,
 	): Promise<Array<Instance> | null>;
 	/**
@@ -589,7 +1793,7 @@ class MongoCollection<
 		options?: FindOptions<Schema>,
 	): Promise<Array<Instance> | null>;
 	async findMany(
-		search?: Data | QueryPredicate<Schema, Instance>,
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
 		options?: FindOptions<Schema>,
 	): Promise<Array<Instance> | null> {
 		return this.find(search, options).toArray();
@@ -610,7 +1814,7 @@ class MongoCollection<
 	): Promise<Instance | null>;
 	/**
 	 * Fetches the first model to match the filter.
-	 * @param filter {Data} The filter to find the model to fetch.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find the model to fetch.
 	 * @param options {FindOneOptions<Schema>} Optional setting for this command.
 	 * @return {Instance | null} The model to match the filter, or `null` if no model matches.
 	 * @note
@@ -619,7 +1823,10 @@ class MongoCollection<
 	 * @example
 	 * const user = await Users.findOne({ email: 'email@email.com' });
 	 */
-	async findOne(filter: Data, options?: FindOneOptions<Schema>): Promise<Instance | null>;
+	async findOne(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: FindOneOptions<Schema>,
+	): Promise<Instance | null>;
 	/**
 	 * Fetches the first model to passes the predicate.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find the model to fetch.
@@ -633,22 +1840,32 @@ class MongoCollection<
 		options?: FindOneOptions<Schema>,
 	): Promise<Instance | null>;
 	async findOne(
-		search: mongo.ObjectId | Data | QueryPredicate<Schema, Instance>,
+		search:
+			| mongo.ObjectId
+			| Data
+			| Query<z.infer<Schema>>
+			| QueryPredicate<Schema, Instance>,
 		options?: FindOneOptions<Schema>,
 	): Promise<Instance | null> {
 		if (search instanceof mongo.ObjectId) {
-			const match: mongo.WithId<Data> | null = await this.collection.findOne({
-				_id: search,
-			});
+			const { withDeleted, populate, ...findOptions } = options ?? {};
+			const match: mongo.WithId<Data> | null = await this.collection.findOne(
+				scoped({ _id: search }, this.softDelete, withDeleted),
+				this.#withSession(findOptions),
+			);
 			if (match === null) return null;
-			const model: Instance = new this.model(decode(match));
-			if (options?.populate) {
-				const populate = Array.isArray(options.populate)
-					? options.populate
-					: [options.populate];
-				if (populate.length) {
-					await Promise.all(populate.map((key) => model.populate(key)));
-				}
+			const model: Instance = instantiate(
+				this,
+				decode(match),
+				Boolean(findOptions.projection),
+			);
+			if (this.writeUpgrades) await persist(this, model);
+			if (populate) {
+				await prefetch(
+					[model],
+					Array.isArray(populate) ? populate : [populate],
+					this.session,
+				);
 			}
 			return model;
 		}
@@ -705,33 +1922,315 @@ class MongoCollection<
 			return this.#schemaFailure(parse.error);
 		}
 		if ("_id" in parse.data) delete parse.data._id;
-		const encoded = encode(parse.data);
 
-		try {
-			const result = await this.collection.insertOne(encoded, options);
-			if (!result.acknowledged) {
-				return this.#rejectFailure();
-			}
+		const stamps = {
+			...this.#stamp("createdAt", "updatedAt"),
+			...this.#version().stamp,
+			...this.#schemaVersion(),
+		};
+		const model = instantiate(this, {
+			...parse.data,
+			...stamps,
+			_id: new mongo.ObjectId(),
+		});
+		const aborted = await this.#hook("beforeInsert", model);
+		if (aborted) return { acknowledged: false, errors: aborted };
+
+		try {
+			const result = await this.collection.insertOne(
+				{ ...document(this.schema, model), ...stamps },
+				this.#withSession(options),
+			);
+			if (!result.acknowledged) {
+				return this.#rejectFailure();
+			}
+		} catch (error: any) {
+			console.error(error);
+			this.#throwTransient(error);
+			const duplicate = this.#duplicateKey(error);
+			if (duplicate !== null) return this.#uniqueFailure(duplicate);
+			return { acknowledged: false, errors: { general: "Failed to Insert Record" } };
+		}
+
+		// the model is inserted, so errors of the after hooks are reported alongside it
+		const errors = await this.#hook("afterInsert", model);
+		return { acknowledged: true, model, ...(errors && { errors }) };
+	}
+
+	/**
+	 * Inserts multiple records into the collection.
+	 * @param records {Array<z.core.input<Schema>>} Data matching the shape of `Schema` input.
+	 * @param options {mongo.BulkWriteOptions} Optional settings for this command.
+	 * @return {Promise<InsertManyResult<Schema, Instance>>} The result of each record,
+	 * at the index it was passed at: the inserted model if `acknowledged` is `true`,
+	 * or `errors` object if `acknowledged` is `false`.
+	 * @note
+	 * Records will be rejected if a unique value conflicts with one existing in the collection.
+	 * @note
+	 * When `ordered` is `true` (default), no records after the first failed record are inserted.
+	 * When `false`, every valid record is inserted.
+	 * @note
+	 * Passed records cannot have an `_id` property.
+	 * Any record with `_id` property will have it deleted.
+	 * @example
+	 * const inserted = await Users.insertMany(rows, { ordered: false })
+	 * inserted.results.forEach((result, row) => {
+	 *     if (!result.acknowledged) console.log(`Row ${row}:`, result.errors)
+	 * })
+	 */
+	async insertMany(
+		records: Array<z.core.input<Schema>>,
+		options?: mongo.BulkWriteOptions,
+	): Promise<InsertManyResult<Schema, Instance>> {
+		const ordered = options?.ordered ?? true;
+
+		const results: Array<InsertResult<Schema, Instance>> = [];
+		const stamps = {
+			...this.#stamp("createdAt", "updatedAt"),
+			...this.#version().stamp,
+			...this.#schemaVersion(),
+		};
+		const pending: Array<{ index: number; model: Instance }> = [];
+		for (const [index, record] of records.entries()) {
+			const parse = await this.schema.safeParseAsync(record);
+			if (!parse.success) {
+				results[index] = this.#schemaFailure(parse.error);
+				continue;
+			}
+			if ("_id" in parse.data) delete parse.data._id;
+
+			const model = instantiate(this, {
+				...parse.data,
+				...stamps,
+				_id: new mongo.ObjectId(),
+			});
+			const aborted = await this.#hook("beforeInsert", model);
+			if (aborted) {
+				results[index] = { acknowledged: false, errors: aborted };
+				continue;
+			}
+			pending.push({ index, model });
+		}
+
+		// ordered inserts stop at the first failed record
+		let attempted = pending;
+		if (ordered && results.length > 0) {
+			const failed = results.findIndex((result) => result !== undefined);
+			attempted = pending.filter(({ index }) => index < failed);
+		}
+
+		let rejected = new Map<number, InsertResult<Schema, Instance>>();
+		let stopped = attempted.length;
+		if (attempted.length > 0) {
+			try {
+				await this.collection.insertMany(
+					attempted.map(({ model }) => ({ ...document(this.schema, model), ...stamps })),
+					this.#withSession({ ...options, ordered }),
+				);
+			} catch (error: any) {
+				this.#throwTransient(error);
+				if (error instanceof mongo.MongoBulkWriteError) {
+					const writeErrors = Array.isArray(error.writeErrors)
+						? error.writeErrors
+						: [error.writeErrors];
+					rejected = new Map(
+						writeErrors.map((writeError) => {
+							const duplicate = this.#duplicateKey(writeError);
+							return [
+								writeError.index,
+								duplicate !== null
+									? this.#uniqueFailure(duplicate)
+									: this.#rejectFailure(),
+							];
+						}),
+					);
+					if (ordered) stopped = Math.min(...rejected.keys());
+				} else {
+					const failure = { general: "Failed to Insert Record" };
+					rejected = new Map(
+						attempted.map((_, i) => [i, { acknowledged: false, errors: failure }]),
+					);
+				}
+			}
+		}
+
+		let insertedCount = 0;
+		for (const [i, { index, model }] of attempted.entries()) {
+			const failure = rejected.get(i);
+			if (failure) {
+				results[index] = failure;
+			} else if (i < stopped) {
+				insertedCount++;
+				const errors = await this.#hook("afterInsert", model);
+				results[index] = { acknowledged: true, model, ...(errors && { errors }) };
+			}
+		}
+
+		for (const index of records.keys()) {
+			results[index] ??= {
+				acknowledged: false,
+				errors: { general: "Not Inserted, Previous Record Failed" },
+			};
+		}
+
+		return {
+			acknowledged: results.every((result) => result.acknowledged),
+			insertedCount,
+			results,
+		};
+	}
+
+	/**
+	 * Fetches the first page of models from this collection.
+	 * @return {Promise<Page<Instance>>} The models of the page, each with its cursor, and whether there are more pages.
+	 * @example
+	 * const page = await Users.paginate();
+	 */
+	async paginate(): Promise<Page<Instance>>;
+	/**
+	 * Fetches a page of models matching the filter from this collection.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find models to fetch.
+	 * @param options {PaginateOptions<Schema> | undefined} The cursors, size, and order of the page, and optional settings for the command.
+	 * @return {Promise<Page<Instance>>} The models of the page, each with its cursor, and whether there are more pages.
+	 * @note
+	 * Pages are fetched with a range filter on the sort keys, rather than by skipping models,
+	 * so a page costs the same however far into the collection it is.
+	 * @note
+	 * Filter matches only models with the exact key-value pairs passed.
+	 * For a more dynamic query, use a predicate.
+	 * @example
+	 * const page = await Users.paginate({}, { first: 10, sortBy: { email: 1 } });
+	 * const next = await Users.paginate({}, {
+	 *     first: 10,
+	 *     after: page.pageInfo.endCursor,
+	 *     sortBy: { email: 1 },
+	 * });
+	 */
+	async paginate(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: PaginateOptions<Schema>,
+	): Promise<Page<Instance>>;
+	/**
+	 * Fetches a page of models passing the predicate from this collection.
+	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find models to fetch.
+	 * @param options {PaginateOptions<Schema> | undefined} The cursors, size, and order of the page, and optional settings for the command.
+	 * @return {Promise<Page<Instance>>} The models of the page, each with its cursor, and whether there are more pages.
+	 * @example
+	 * const page = await Users.paginate((user) => user.locked, { last: 10, before: <cursor> });
+	 */
+	async paginate(
+		predicate: QueryPredicate<Schema, Instance>,
+		options?: PaginateOptions<Schema>,
+	): Promise<Page<Instance>>;
+	async paginate(
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+		options?: PaginateOptions<Schema>,
+	): Promise<Page<Instance>> {
+		const {
+			after: _a,
+			before: _b,
+			first: _f,
+			last: _l,
+			sortBy: _s,
+			...findOptions
+		} = options ?? {};
+		return this.find(search, findOptions).paginate(options);
+	}
+
+	/**
+	 * Permanently deletes soft-deleted models from this collection.
+	 * @return {Promise<number>} The number of purged models.
+	 * @note Without `softDelete` on the collection, no models are purged.
+	 * @example
+	 * const purged = await Users.purge();
+	 */
+	async purge(): Promise<number>;
+	/**
+	 * Permanently deletes soft-deleted models matching the filter from this collection.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find models to purge.
+	 * @param options {mongo.DeleteOptions | undefined} Optional settings for the command.
+	 * @return {Promise<number>} The number of purged models.
+	 * @note Without `softDelete` on the collection, no models are purged.
+	 * @note
+	 * Filter matches only models with the exact key-value pairs passed.
+	 * For a more dynamic query, use a predicate.
+	 * @example
+	 * const purged = await Users.purge({ email: 'email@email.com' });
+	 */
+	async purge(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: mongo.DeleteOptions,
+	): Promise<number>;
+	/**
+	 * Permanently deletes soft-deleted models passing the predicate from this collection.
+	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find models to purge.
+	 * @param options {mongo.DeleteOptions | undefined} Optional settings for the command.
+	 * @return {Promise<number>} The number of purged models.
+	 * @note Without `softDelete` on the collection, no models are purged.
+	 * @example
+	 * const purged = await Users.purge((user) => user.attempts >= 3);
+	 */
+	async purge(
+		predicate: QueryPredicate<Schema, Instance>,
+		options?: mongo.DeleteOptions,
+	): Promise<number>;
+	async purge(
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+		options?: mongo.DeleteOptions,
+	): Promise<number> {
+		if (!this.softDelete) return 0;
+		const purged = await this.collection.deleteMany(
+			await this.#deleted(search),
+			this.#withSession(options),
+		);
+		return purged.deletedCount;
+	}
 
-			return {
-				acknowledged: true,
-				model: new this.model({ ...parse.data, _id: result.insertedId }),
-			};
-		} catch (error: any) {
-			console.error(error)
-			if (error instanceof mongo.MongoServerError) {
-				if (error.code === 11000) {
-					const key = Object.keys(error.errorResponse.keyPattern).at(0) ?? "";
-					return this.#uniqueFailure(key);
-				}
-			}
-			return { acknowledged: false, errors: { general: "Failed to Insert Record" } };
-		}
+	/**
+	 * Restores soft-deleted models matching the filter in this collection.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find models to restore.
+	 * @param options {mongo.UpdateOptions | undefined} Optional settings for the command.
+	 * @return {Promise<number>} The number of restored models.
+	 * @note Without `softDelete` on the collection, no models are restored.
+	 * @note
+	 * Filter matches only models with the exact key-value pairs passed.
+	 * For a more dynamic query, use a predicate.
+	 * @example
+	 * const restored = await Users.restore({ email: 'email@email.com' });
+	 */
+	async restore(
+		filter: Data | Query<z.infer<Schema>>,
+		options?: mongo.UpdateOptions,
+	): Promise<number>;
+	/**
+	 * Restores soft-deleted models passing the predicate in this collection.
+	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find models to restore.
+	 * @param options {mongo.UpdateOptions | undefined} Optional settings for the command.
+	 * @return {Promise<number>} The number of restored models.
+	 * @note Without `softDelete` on the collection, no models are restored.
+	 * @example
+	 * const restored = await Users.restore((user) => user.email.endsWith('@email.com'));
+	 */
+	async restore(
+		predicate: QueryPredicate<Schema, Instance>,
+		options?: mongo.UpdateOptions,
+	): Promise<number>;
+	async restore(
+		search: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+		options?: mongo.UpdateOptions,
+	): Promise<number> {
+		if (!this.softDelete) return 0;
+		const restored = await this.collection.updateMany(
+			await this.#deleted(search),
+			{ $unset: { deletedAt: "" } },
+			this.#withSession(options),
+		);
+		return restored.modifiedCount;
 	}
 
 	/**
 	 * Transform models that match the query.
-	 * @param filter {Data} The key-value pairs to query for.
+	 * @param filter {Data | Query<z.infer<Schema>>} The key-value pairs to query for.
 	 * @param transform {(model: Instance) => MaybePromise<R>} The transformation function.
 	 * @param options {FindOptions<Schema> | undefined} Optional settings for this operation.
 	 * @return {Promise<Array<T> | null>} An array of the transformed data, or null if no models match query.
@@ -751,7 +2250,7 @@ class MongoCollection<
 	 * )
 	 */
 	async transformMany<T>(
-		filter: Data,
+		filter: Data | Query<z.infer<Schema>>,
 		transform: (model: Instance) => MaybePromise<T>,
 		options?: mongo.FindOptions,
 	): Promise<Array<T> | null>;
@@ -782,7 +2281,7 @@ class MongoCollection<
 		options?: FindOptions<Schema>,
 	): Promise<Array<T> | null>;
 	async transformMany<T>(
-		search: Data | QueryPredicate<Schema, Instance>,
+		search: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
 		transform: (model: Instance) => MaybePromise<T>,
 		options?: FindOptions<Schema>,
 	): Promise<Array<T> | null> {
@@ -815,7 +2314,7 @@ class MongoCollection<
 	): Promise<T | null>;
 	/**
 	 * Transform a model that matches the query.
-	 * @param filter {Data} The key-value pairs to query for.
+	 * @param filter {Data | Query<z.infer<Schema>>} The key-value pairs to query for.
 	 * @param transform {(model: Instance) => MaybePromise<R>} The transformation function.
 	 * @param options {FindOneOptions<Schema> | undefined} Optional settings for this operation.
 	 * @return {Promise<T | null>} The transformed data, or null if no match is found.
@@ -833,7 +2332,7 @@ class MongoCollection<
 	 * )
 	 */
 	async transformOne<T>(
-		filter: Data,
+		filter: Data | Query<z.infer<Schema>>,
 		transform: (model: Instance) => MaybePromise<T>,
 		options?: FindOneOptions<Schema>,
 	): Promise<T | null>;
@@ -859,7 +2358,11 @@ class MongoCollection<
 		options?: FindOneOptions<Schema>,
 	): Promise<T | null>;
 	async transformOne<T>(
-		search: mongo.ObjectId | Data | QueryPredicate<Schema, Instance>,
+		search:
+			| mongo.ObjectId
+			| Data
+			| Query<z.infer<Schema>>
+			| QueryPredicate<Schema, Instance>,
 		transform: (model: Instance) => MaybePromise<T>,
 		options?: FindOneOptions<Schema>,
 	): Promise<T | null> {
@@ -879,53 +2382,80 @@ class MongoCollection<
 
 	/**
 	 * Update multiple models in this collection.
-	 * @param filter {Data} The filter to find the models to update.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find the models to update.
 	 * @param update {Partial<z.infer<Schema>>} The partial record containing the updated key-values.
-	 * @param options {mongo.FindOneAndUpdateOptions} Optional settings for this operation.
-	 * @return {Promise<UpdateManyResult<Schema, Instance>>} The updated models if any are updated,
-	 * or `errors` object if no models match or conflict in unique properties.
+	 * @param options {UpdateManyOptions | undefined} Optional settings for this operation.
+	 * @return {Promise<UpdateManyResult<Schema, Instance, Options>>} The updated models
+	 * (or their `count`, if `returnModels` is `false`) if all are updated,
+	 * or `errors` object if no models match or any fail validation or conflict in unique properties.
+	 * Either way, `updated` and `failed` report the outcome of each model.
 	 * @note
 	 * Filter matches only models with the exact key-value pairs passed.
 	 * For a more dynamic query, use a predicate.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * Models are validated and diffed one by one, then written in `bulkWrite` batches
+	 * of `batchSize` (default `1000`).
+	 * @note
+	 * A failed model does not stop the others from updating, unless `atomic` is `true`:
+	 * then every update runs in a transaction that is rolled back on the first failure,
+	 * and the `afterUpdate` hooks run once it is committed.
 	 * @example
 	 * const updated = await Users.updateMany({ email: 'email@email.com' }, { email: 'newemail@email.com' })
 	 */
-	async updateMany(
-		filter: Data,
+	async updateMany<Options extends UpdateManyOptions>(
+		filter: Data | Query<z.infer<Schema>>,
 		update: Partial<z.infer<Schema>>,
-		options?: mongo.FindOneAndUpdateOptions,
-	): Promise<UpdateManyResult<Schema, Instance>>;
+		options?: Options,
+	): Promise<UpdateManyResult<Schema, Instance, Options>>;
 	/**
 	 * Update multiple models in this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find models to update.
 	 * @param update {Partial<z.infer<Schema>>} The partial record containing the updated key-values.
-	 * @param options {mongo.FindOneAndUpdateOptions} Optional settings for this operation.
-	 * @return {Promise<UpdateManyResult<Schema, Instance>>} The updated models if any are updated,
-	 * or `errors` object if no models match or conflict in unique properties.
+	 * @param options {UpdateManyOptions | undefined} Optional settings for this operation.
+	 * @return {Promise<UpdateManyResult<Schema, Instance, Options>>} The updated models
+	 * (or their `count`, if `returnModels` is `false`) if all are updated,
+	 * or `errors` object if no models match or any fail validation or conflict in unique properties.
+	 * Either way, `updated` and `failed` report the outcome of each model.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * Models are validated and diffed one by one, then written in `bulkWrite` batches
+	 * of `batchSize` (default `1000`).
+	 * @note
+	 * A failed model does not stop the others from updating, unless `atomic` is `true`:
+	 * then every update runs in a transaction that is rolled back on the first failure,
+	 * and the `afterUpdate` hooks run once it is committed.
 	 * @example
 	 * const updated = await Users.updateMany((user) => user.locked, { attempts: 0 })
 	 */
-	async updateMany(
+	async updateMany<Options extends UpdateManyOptions>(
 		predicate: QueryPredicate<Schema, Instance>,
 		update: Partial<z.infer<Schema>>,
-		options?: mongo.FindOneAndUpdateOptions,
-	): Promise<UpdateManyResult<Schema, Instance>>;
+		options?: Options,
+	): Promise<UpdateManyResult<Schema, Instance, Options>>;
 	/**
 	 * Update multiple models in this collection.
-	 * @param filter {Data} The filter to find models to update.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find models to update.
 	 * @param updater {ModelUpdater<Schema, Instance>} A function passed to update each model.
-	 * @param options {mongo.FindOneAndUpdateOptions} Optional settings for this operation.
-	 * @return {Promise<UpdateManyResult<Schema, Instance>>} The updated models if any are updated,
-	 * or `errors` object if no models match or conflict in unique properties.
+	 * @param options {UpdateManyOptions | undefined} Optional settings for this operation.
+	 * @return {Promise<UpdateManyResult<Schema, Instance, Options>>} The updated models
+	 * (or their `count`, if `returnModels` is `false`) if all are updated,
+	 * or `errors` object if no models match or any fail validation or conflict in unique properties.
+	 * Either way, `updated` and `failed` report the outcome of each model.
 	 * @note
 	 * Filter matches only models with the exact key-value pairs passed.
 	 * For a more dynamic query, use a predicate.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * Models are validated and diffed one by one, then written in `bulkWrite` batches
+	 * of `batchSize` (default `1000`).
+	 * @note
+	 * A failed model does not stop the others from updating, unless `atomic` is `true`:
+	 * then every update runs in a transaction that is rolled back on the first failure,
+	 * and the `afterUpdate` hooks run once it is committed.
 	 * @example
 	 * const updated = await Users.updateMany(
 	 *     { email: 'email@email.com' },
@@ -934,42 +2464,153 @@ class MongoCollection<
 	 *     }
 	 * )
 	 */
-	async updateMany(
-		filter: Data,
+	async updateMany<Options extends UpdateManyOptions>(
+		filter: Data | Query<z.infer<Schema>>,
 		updater: ModelUpdater<Schema, Instance>,
-		options?: mongo.FindOneAndUpdateOptions,
-	): Promise<UpdateManyResult<Schema, Instance>>;
+		options?: Options,
+	): Promise<UpdateManyResult<Schema, Instance, Options>>;
 	/**
 	 * Update multiple models in this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find models to update.
 	 * @param updater {ModelUpdater<Schema, Instance>} A function passed to update each model.
-	 * @param options {mongo.FindOneAndUpdateOptions} Optional settings for this operation.
-	 * @return {Promise<UpdateManyResult<Schema, Instance>>} The updated models if any are updated,
-	 * or `errors` object if no models match or conflict in unique properties.
+	 * @param options {UpdateManyOptions | undefined} Optional settings for this operation.
+	 * @return {Promise<UpdateManyResult<Schema, Instance, Options>>} The updated models
+	 * (or their `count`, if `returnModels` is `false`) if all are updated,
+	 * or `errors` object if no models match or any fail validation or conflict in unique properties.
+	 * Either way, `updated` and `failed` report the outcome of each model.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * Models are validated and diffed one by one, then written in `bulkWrite` batches
+	 * of `batchSize` (default `1000`).
+	 * @note
+	 * A failed model does not stop the others from updating, unless `atomic` is `true`:
+	 * then every update runs in a transaction that is rolled back on the first failure,
+	 * and the `afterUpdate` hooks run once it is committed.
 	 * @example
 	 * const updated = await Users.updateMany((user) => user.locked, (user) => {
 	 *      user.attempts = 0;
 	 * })
 	 */
-	async updateMany(
+	async updateMany<Options extends UpdateManyOptions>(
 		predicate: QueryPredicate<Schema, Instance>,
 		updater: ModelUpdater<Schema, Instance>,
-		options?: mongo.FindOneAndUpdateOptions,
-	): Promise<UpdateManyResult<Schema, Instance>>;
+		options?: Options,
+	): Promise<UpdateManyResult<Schema, Instance, Options>>;
 	async updateMany(
-		search: Data | QueryPredicate<Schema, Instance>,
+		search: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
 		update: Partial<z.infer<Schema>> | ModelUpdater<Schema, Instance>,
-		options?: mongo.FindOneAndUpdateOptions,
-	): Promise<UpdateManyResult<Schema, Instance>> {
+		options?: UpdateManyOptions,
+	): Promise<UpdateManyResult<Schema, Instance, any>> {
 		if (typeof update === "object") {
 			const parsed = await this.schema.partial().safeParseAsync(update);
-			if (!parsed.success) return this.#schemaFailure(parsed.error);
+			if (!parsed.success) {
+				return { ...this.#schemaFailure(parsed.error), updated: [], failed: [] };
+			}
+		}
+
+		if (!options?.atomic || this.session?.inTransaction()) {
+			const written: Array<PendingUpdate<Instance>> = [];
+			const result = await this.#updateMany(search, update, options, written);
+			return this.#afterUpdate(result, written);
 		}
 
+		let result!: UpdateManyResult<Schema, Instance, any>;
+		let written: Array<PendingUpdate<Instance>> = [];
+		await transaction(this.#db.client, async (tx) => {
+			written = [];
+			result = await tx.collection(this).#updateMany(search, update, options, written);
+			if (!result.acknowledged) await tx.abort();
+		});
+		if (!result.acknowledged) return { ...result, updated: [] };
+		// the after hooks run once the transaction is committed, as a rollback cannot undo them
+		return this.#afterUpdate(result, written);
+	}
+
+	async #updateMany(
+		search: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+		update: Partial<z.infer<Schema>> | ModelUpdater<Schema, Instance>,
+		options: UpdateManyOptions | undefined,
+		written: Array<PendingUpdate<Instance>>,
+	): Promise<UpdateManyResult<Schema, Instance, any>> {
+		const {
+			batchSize = 1000,
+			returnModels = true,
+			atomic = false,
+			...bulkOptions
+		} = options ?? {};
+
 		const models: Array<Instance> = [];
-		for await (const before of this.find(search, options)) {
+		const updated: Array<mongo.ObjectId> = [];
+		const failed: Array<UpdateManyFailure<Schema>> = [];
+		let count = 0;
+		const flush = async (batch: Array<PendingUpdate<Instance>>) => {
+			if (batch.length === 0) return;
+
+			// an atomic batch stops at the first rejected write, the rest are attempted
+			let succeeded = batch;
+			let matched = batch.length;
+			try {
+				const result = await this.collection.bulkWrite(
+					batch.map(({ filter, diff }) => ({
+						updateOne: { filter, update: diff },
+					})),
+					this.#withSession({ ...bulkOptions, ordered: atomic }),
+				);
+				count += result.modifiedCount;
+				matched = result.matchedCount;
+			} catch (error: any) {
+				this.#throwTransient(error);
+				if (!(error instanceof mongo.MongoBulkWriteError)) {
+					const errors = { general: "Failed to Update Record" };
+					failed.push(...batch.map(({ model }) => ({ _id: model._id, errors })));
+					return;
+				}
+
+				count += error.result.modifiedCount;
+				matched = error.result.matchedCount;
+				const writeErrors = Array.isArray(error.writeErrors)
+					? error.writeErrors
+					: [error.writeErrors];
+				const rejected = new Map(
+					writeErrors.map((writeError) => [writeError.index, writeError]),
+				);
+				const attempted = atomic ? Math.min(...rejected.keys()) : batch.length;
+				succeeded = [];
+				batch.forEach(({ model }, index) => {
+					const writeError = rejected.get(index);
+					if (writeError) {
+						const duplicate = this.#duplicateKey(writeError);
+						failed.push({
+							_id: model._id,
+							errors:
+								duplicate !== null
+									? this.#uniqueFailure(duplicate).errors
+									: this.#rejectFailure().errors,
+						});
+					} else if (index < attempted) {
+						succeeded.push(batch[index] as (typeof batch)[number]);
+					}
+				});
+			}
+
+			// versioned writes match nothing when the model changed since it was read
+			if (this.#params.versionKey && matched < succeeded.length) {
+				const stale = await this.#stale(succeeded);
+				succeeded = succeeded.filter(({ model }) => {
+					if (!stale.has(model._id.toHexString())) return true;
+					failed.push({ _id: model._id, errors: this.#conflictFailure().errors });
+					return false;
+				});
+			}
+
+			written.push(...succeeded);
+			updated.push(...succeeded.map(({ model }) => model._id));
+			if (returnModels) models.push(...succeeded.map(({ model }) => model));
+		};
+
+		let batch: Array<PendingUpdate<Instance>> = [];
+		for await (const before of this.find(search)) {
 			const after = new this.model(before.toJSON());
 
 			if (typeof update === "function") {
@@ -979,75 +2620,107 @@ class MongoCollection<
 			}
 
 			const parsed = await this.schema.safeParseAsync(after.toJSON());
-			if (!parsed.success) {
-				return this.#schemaFailure(parsed.error);
+			const errors = parsed.success
+				? await this.#hook("beforeUpdate", after, before)
+				: this.#schemaFailure(parsed.error).errors;
+			if (errors) {
+				failed.push({ _id: before._id, errors });
+				if (atomic) break;
+				continue;
 			}
 
-			const diff = changes("", before.toJSON(), after.toJSON()).parse;
-
-			if (Object.keys(diff).length === 0) {
-				return { acknowledged: false, errors: { general: "No Updates to Make" } };
+			if (Object.keys(changes("", before.toJSON(), after.toJSON()).parse).length === 0) {
+				continue;
 			}
+			const diff = delta(this, before, after);
+			relate(after, diff);
 
-			try {
-				const updated = await this.collection.findOneAndUpdate(
-					{ _id: before._id },
-					diff,
-					{
-						...options,
-						returnDocument: "after",
-					},
-				);
-				if (updated !== null) {
-					models.push(new this.model(updated));
-				}
-			} catch (error: any) {
-				if (error instanceof mongo.MongoServerError) {
-					if (error.code === 11000) {
-						const key = Object.keys(error.errorResponse.keyPattern).at(0) ?? "";
-						return this.#uniqueFailure(key);
-					}
-				}
-				return { acknowledged: false, errors: { general: "Failed to Update Record" } };
+			const stamps = this.#stamp("updatedAt");
+			const version = this.#version(before);
+			extend(diff, "$set", stamps);
+			extend(diff, "$inc", version.$inc);
+			batch.push({
+				before,
+				model: instantiate(this, {
+					...after.toJSON(),
+					...stamps,
+					...version.stamp,
+					_id: before._id,
+				}),
+				filter: { _id: before._id, ...version.filter },
+				diff,
+			});
+			if (batch.length >= batchSize) {
+				await flush(batch);
+				batch = [];
+				if (atomic && failed.length > 0) break;
 			}
 		}
+		if (!atomic || failed.length === 0) await flush(batch);
+
+		const failure = failed.at(0);
+		if (failure) {
+			return { acknowledged: false, errors: failure.errors, updated, failed };
+		}
 
-		if (models.length === 0) {
+		if (updated.length === 0) {
 			return {
 				acknowledged: false,
 				errors: { general: `No ${this.model.name} Updated` },
+				updated,
+				failed,
 			};
 		}
 
-		return { acknowledged: true, models };
+		if (!returnModels) return { acknowledged: true, count, updated, failed };
+		return { acknowledged: true, models, updated, failed };
+	}
+
+	// errors of the after hooks are reported apart from failures, as the models stay written
+	async #afterUpdate(
+		result: UpdateManyResult<Schema, Instance, any>,
+		written: Array<PendingUpdate<Instance>>,
+	): Promise<UpdateManyResult<Schema, Instance, any>> {
+		const reported: Array<UpdateManyFailure<Schema>> = [];
+		for (const { before, model } of written) {
+			const errors = await this.#hook("afterUpdate", model, before);
+			if (errors) reported.push({ _id: model._id, errors });
+		}
+		return reported.length > 0 ? { ...result, reported } : result;
 	}
 
 	/**
 	 * Update the first model to match the predicate in this collection.
 	 * @param id {mongo.ObjectId} The `mongo.ObjectId` of the model to update.
 	 * @param update {Partial<z.infer<Schema>>} The partial record containing the updated key-values.
-	 * @param options {mongo.FindOptions} Optional settings for this operation.
+	 * @param options {UpdateOneOptions} Optional settings for this operation.
 	 * @return {Promise<UpdateResult<Schema, Instance>>} The updated model if it is found,
 	 * or `errors` object no model matches or conflict in unique properties.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * With `upsert` as `true`, a model is inserted from the filter and update when none matches.
+	 * See `upsert`.
 	 * @example
 	 * const updated = await Users.updateOne((user) => user.email === 'email@email.com', { attempts: 0 })
 	 */
 	async updateOne(
 		id: mongo.ObjectId,
 		update: Partial<z.infer<Schema>>,
-		options?: mongo.FindOneAndUpdateOptions,
+		options?: UpdateOneOptions,
 	): Promise<UpdateResult<Schema, Instance>>;
 	/**
 	 * Update multiple models in this collection.
 	 * @param id {mongo.ObjectId} The `mongo.ObjectId` of the model to update.
 	 * @param updater {ModelUpdater<Schema, Instance>} A function passed to update each model.
-	 * @param options {mongo.FindOptions} Optional settings for this operation.
+	 * @param options {UpdateOneOptions} Optional settings for this operation.
 	 * @return {Promise<UpdateResult<Schema, Instance>>} The updated model if it is found,
 	 * or `errors` object if `mongo.ObjectId` doesn't exist in the collection or conflict in unique properties.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * With `upsert` as `true`, a model is inserted from the filter and update when none matches.
+	 * See `upsert`.
 	 * @example
 	 * const updated = await Users.updateOne(<id>, (user) => {
 	 *      user.attempts = 0;
@@ -1056,13 +2729,13 @@ class MongoCollection<
 	async updateOne(
 		id: mongo.ObjectId,
 		updater: ModelUpdater<Schema, Instance>,
-		options?: mongo.FindOneAndUpdateOptions,
+		options?: UpdateOneOptions,
 	): Promise<UpdateResult<Schema, Instance>>;
 	/**
 	 * Update the first model to match the predicate in this collection.
-	 * @param filter {Data} The filter to find the model to update.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find the model to update.
 	 * @param update {Partial<z.infer<Schema>>} The partial record containing the updated key-values.
-	 * @param options {mongo.FindOptions} Optional settings for this operation.
+	 * @param options {UpdateOneOptions} Optional settings for this operation.
 	 * @return {Promise<UpdateResult<Schema, Instance>>} The updated model if it is found,
 	 * or `errors` object no model matches or conflict in unique properties.
 	 * @note
@@ -1070,19 +2743,22 @@ class MongoCollection<
 	 * For a more dynamic query, use a predicate.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * With `upsert` as `true`, a model is inserted from the filter and update when none matches.
+	 * See `upsert`.
 	 * @example
 	 * const updated = await Users.updateOne((user) => user.email === 'email@email.com', { attempts: 0 })
 	 */
 	async updateOne(
-		filter: Data,
+		filter: Data | Query<z.infer<Schema>>,
 		update: Partial<z.infer<Schema>>,
-		options?: mongo.FindOneAndUpdateOptions,
+		options?: UpdateOneOptions,
 	): Promise<UpdateResult<Schema, Instance>>;
 	/**
 	 * Update the first model to match the filter in this collection.
-	 * @param filter {Data} The filter to find the model to update.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find the model to update.
 	 * @param updater {ModelUpdater<Schema, Instance>} A function passed to update each model.
-	 * @param options {mongo.FindOptions} Optional settings for this operation.
+	 * @param options {UpdateOneOptions} Optional settings for this operation.
 	 * @return {Promise<UpdateResult<Schema, Instance>>} The updated model if it is found,
 	 * or `errors` object no model matches or conflict in unique properties.
 	 * @note
@@ -1090,21 +2766,24 @@ class MongoCollection<
 	 * For a more dynamic query, use a predicate.
 	 * @note
 	 * Updates containing unique properties will be rejected.
+	 * @note
+	 * With `upsert` as `true`, a model is inserted from the filter and update when none matches.
+	 * See `upsert`.
 	 * @example
 	 * const updated = await Users.updateOne({ email: 'email@email.com' }, (user) => {
 	 *      user.attempts = 0;
 	 * })
 	 */
 	async updateOne(
-		filter: Data,
+		filter: Data | Query<z.infer<Schema>>,
 		updater: ModelUpdater<Schema, Instance>,
-		options?: mongo.FindOneAndUpdateOptions,
+		options?: UpdateOneOptions,
 	): Promise<UpdateResult<Schema, Instance>>;
 	/**
 	 * Update the first model to match the predicate in this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find the model to update.
 	 * @param update {Partial<z.infer<Schema>>} The partial record containing the updated key-values.
-	 * @param options {mongo.FindOptions} Optional settings for this operation.
+	 * @param options {UpdateOneOptions} Optional settings for this operation.
 	 * @return {Promise<UpdateResult<Schema, Instance>>} The updated model if it is found,
 	 * or `errors` object no model matches or conflict in unique properties.
 	 * @note
@@ -1115,13 +2794,13 @@ class MongoCollection<
 	async updateOne(
 		predicate: QueryPredicate<Schema, Instance>,
 		update: Partial<z.infer<Schema>>,
-		options?: mongo.FindOneAndUpdateOptions,
+		options?: UpdateOneOptions,
 	): Promise<UpdateResult<Schema, Instance>>;
 	/**
 	 * Update the first model to match the predicate in this collection.
 	 * @param predicate {QueryPredicate<Schema, Instance>} The predicate to find the model to update.
 	 * @param updater {ModelUpdater<Schema, Instance>} A function passed to update each model.
-	 * @param options {mongo.FindOptions} Optional settings for this operation.
+	 * @param options {UpdateOneOptions} Optional settings for this operation.
 	 * @return {Promise<UpdateResult<Schema, Instance>>} The updated model if it is found,
 	 * or `errors` object no model matches or conflict in unique properties.
 	 * @note
@@ -1134,13 +2813,36 @@ class MongoCollection<
 	async updateOne(
 		predicate: QueryPredicate<Schema, Instance>,
 		updater: ModelUpdater<Schema, Instance>,
-		options?: mongo.FindOneAndUpdateOptions,
+		options?: UpdateOneOptions,
 	): Promise<UpdateResult<Schema, Instance>>;
 	async updateOne(
-		search: mongo.ObjectId | Data | QueryPredicate<Schema, Instance>,
+		search:
+			| mongo.ObjectId
+			| Data
+			| Query<z.infer<Schema>>
+			| QueryPredicate<Schema, Instance>,
+		update: Partial<z.infer<Schema>> | ModelUpdater<Schema, Instance>,
+		options?: UpdateOneOptions,
+	): Promise<UpdateResult<Schema, Instance>> {
+		const { retries = 0, ...rest } = options ?? {};
+		let result = await this.#updateOne(search, update, rest);
+		for (let retry = 0; retry < retries && this.#conflicted(result); retry++) {
+			result = await this.#updateOne(search, update, rest);
+		}
+		return result;
+	}
+
+	async #updateOne(
+		search:
+			| mongo.ObjectId
+			| Data
+			| Query<z.infer<Schema>>
+			| QueryPredicate<Schema, Instance>,
 		update: Partial<z.infer<Schema>> | ModelUpdater<Schema, Instance>,
 		options?: mongo.FindOneAndUpdateOptions,
 	): Promise<UpdateResult<Schema, Instance>> {
+		const { upsert, ...rest } = options ?? {};
+
 		let before: Instance | null;
 		if (search instanceof mongo.ObjectId) {
 			before = await this.findOne(search);
@@ -1150,6 +2852,21 @@ class MongoCollection<
 			before = await this.findOne(search);
 		}
 
+		if (before === null && upsert && typeof search !== "function") {
+			const filter = search instanceof mongo.ObjectId ? { _id: search } : search;
+			const draft = new this.model(seed(filter));
+			if (typeof update === "function") {
+				await update(draft);
+			} else {
+				Object.assign(draft, update);
+			}
+			return await this.upsert(
+				filter,
+				draft.toJSON() as Partial<z.core.input<Schema>>,
+				rest,
+			);
+		}
+
 		if (before === null) {
 			return {
 				acknowledged: false,
@@ -1170,31 +2887,496 @@ class MongoCollection<
 			return this.#schemaFailure(parsed.error);
 		}
 
-		const diff = changes("", before.toJSON(), after.toJSON()).parse;
+		const aborted = await this.#hook("beforeUpdate", after, before);
+		if (aborted) return { acknowledged: false, errors: aborted };
 
-		if (Object.keys(diff).length === 0) {
+		if (Object.keys(changes("", before.toJSON(), after.toJSON()).parse).length === 0) {
 			return { acknowledged: false, errors: { general: "No Updates to Make" } };
 		}
+		const diff = delta(this, before, after);
+		relate(after, diff);
+		extend(diff, "$set", this.#stamp("updatedAt"));
+		const version = this.#version(before);
+		extend(diff, "$inc", version.$inc);
 
+		let updated: Data | null;
 		try {
-			const updated = await this.collection.findOneAndUpdate({ _id: before._id }, diff, {
-				...options,
-				returnDocument: "after",
-			});
-			if (updated === null) {
-				return this.#rejectFailure();
+			updated = await this.collection.findOneAndUpdate(
+				{ _id: before._id, ...version.filter },
+				diff,
+				this.#withSession({
+					...rest,
+					returnDocument: "after",
+				}),
+			);
+		} catch (error: any) {
+			this.#throwTransient(error);
+			const duplicate = this.#duplicateKey(error);
+			if (duplicate !== null) return this.#uniqueFailure(duplicate);
+			return { acknowledged: false, errors: { general: "Failed to Update Record" } };
+		}
+		if (updated === null) {
+			return this.#params.versionKey ? this.#conflictFailure() : this.#rejectFailure();
+		}
+
+		// the model is updated, so errors of the after hooks are reported alongside it
+		const model = instantiate(this, decode(updated));
+		const errors = await this.#hook("afterUpdate", model, before);
+		return { acknowledged: true, model, ...(errors && { errors }) };
+	}
+
+	/**
+	 * Update the first model to match the filter, or insert one if none matches.
+	 * @param filter {Data | Query<z.infer<Schema>>} The filter to find the model to update.
+	 * @param record {Partial<z.core.input<Schema>>} The key-values to write to the model.
+	 * @param options {mongo.FindOneAndUpdateOptions} Optional settings for this operation.
+	 * @return {Promise<UpsertResult<Schema, Instance>>} The written model and whether it was
+	 * `inserted`, or `errors` object if the record is invalid or conflicts in unique properties.
+	 * @note
+	 * The equality conditions of the filter are merged with the record,
+	 * and the merged record is validated against the full schema.
+	 * @note
+	 * Key-values in the record are written to the model whether it is inserted or updated.
+	 * Remaining values, such as schema defaults, are only written when it is inserted.
+	 * @note
+	 * The lookup and write are a single operation,
+	 * so concurrent upserts will not insert duplicate models.
+	 * @note
+	 * With `versionKey`, an inserted model starts at version `0`, as with `insert`;
+	 * the model is updated, or else inserted, in two operations that still insert it once.
+	 * @note
+	 * With insert or update hooks, the model is looked up first, and then inserted with
+	 * `insert` or updated with `updateOne` so the hooks of that write run; concurrent upserts
+	 * may then both insert, unless a unique constraint covers the filter.
+	 * @example
+	 * const result = await Users.upsert({ email: 'email@email.com' }, { attempts: 0 })
+	 * if (result.acknowledged && result.inserted) console.log('created', result.model._id)
+	 */
+	async upsert(
+		filter: Data | Query<z.infer<Schema>>,
+		record: Partial<z.core.input<Schema>>,
+		options?: mongo.FindOneAndUpdateOptions,
+	): Promise<UpsertResult<Schema, Instance>> {
+		const hooks = ["beforeInsert", "afterInsert", "beforeUpdate", "afterUpdate"] as const;
+		if (hooks.some((hook) => this.#hooked(hook))) {
+			const existing = await this.findOne(filter);
+			if (existing === null) {
+				const inserted = await this.insert(
+					{ ...seed(filter), ...record } as z.core.input<Schema>,
+					options,
+				);
+				return inserted.acknowledged ? { ...inserted, inserted: true } : inserted;
+			}
+
+			const updated = await this.#updateOne(
+				existing._id,
+				record as Partial<z.infer<Schema>>,
+				options,
+			);
+			if (updated.acknowledged) return { ...updated, inserted: false };
+			// an upsert writing the stored values succeeds, as it does without hooks
+			if (
+				"general" in updated.errors &&
+				updated.errors.general === "No Updates to Make"
+			) {
+				return { acknowledged: true, inserted: false, model: existing };
+			}
+			return updated;
+		}
+
+		const parse = await this.schema.safeParseAsync({ ...seed(filter), ...record });
+		if (!parse.success) {
+			return this.#schemaFailure(parse.error);
+		}
+
+		const update = new UpdateFilter();
+		for (const [key, value] of Object.entries(encode(parse.data))) {
+			if (key in record) {
+				update.$set[key] = value;
+			} else {
+				update.$setOnInsert[key] = value;
+			}
+		}
+		const version = this.#version();
+		Object.assign(update.$set, this.#stamp("updatedAt"));
+		Object.assign(update.$inc, version.$inc);
+		Object.assign(update.$setOnInsert, this.#stamp("createdAt"), this.#schemaVersion());
+		// soft-deleted models are not matched, and the scope is not written to inserted models
+		if (this.softDelete) update.$unset.deletedAt = "";
+
+		// the version of an inserted model starts where `insert` starts it, and cannot be set
+		// in the update that increments it, so a versioned model is updated or else inserted
+		const versioned = Object.keys(version.stamp).length > 0;
+		const inserting = new UpdateFilter();
+		Object.assign(
+			inserting.$setOnInsert,
+			update.$set,
+			update.$setOnInsert,
+			version.stamp,
+		);
+		Object.assign(inserting.$unset, update.$unset);
+
+		const search = scoped(compileSearch(this.schema, filter).filter, this.softDelete);
+		const settings = {
+			...options,
+			returnDocument: "after",
+			includeResultMetadata: true,
+		} as const;
+		try {
+			for (;;) {
+				if (versioned) {
+					const updated = await this.collection.findOneAndUpdate(
+						search,
+						update.parse,
+						this.#withSession({ ...settings, upsert: false }),
+					);
+					if (updated.value !== null) {
+						return {
+							acknowledged: true,
+							inserted: false,
+							model: instantiate(this, decode(updated.value)),
+						};
+					}
+				}
+
+				const result = await this.collection.findOneAndUpdate(
+					search,
+					versioned ? inserting.parse : update.parse,
+					this.#withSession({ ...settings, upsert: true }),
+				);
+				if (result.value === null) {
+					return this.#rejectFailure();
+				}
+				const inserted = result.lastErrorObject?.updatedExisting !== true;
+				// a versioned model inserted since it was looked up is updated on the next pass
+				if (versioned && !inserted) continue;
+
+				return {
+					acknowledged: true,
+					inserted,
+					model: instantiate(this, decode(result.value)),
+				};
+			}
+		} catch (error: any) {
+			this.#throwTransient(error);
+			const duplicate = this.#duplicateKey(error);
+			if (duplicate !== null) return this.#uniqueFailure(duplicate);
+			return { acknowledged: false, errors: { general: "Failed to Upsert Record" } };
+		}
+	}
+
+	/**
+	 * Watches this collection for inserted, updated, replaced, and deleted models.
+	 * @param filter {Data | Query<z.infer<Schema>> | undefined} The filter the changed models match.
+	 * @param options {WatchOptions | undefined} Optional settings for the change stream.
+	 * @return {ChangeStream<Schema, Instance>} An async iterable of the change events.
+	 * @note
+	 * The filter matches the `fullDocument` of events, so it does not match deletions,
+	 * and only matches updates with `fullDocument: "updateLookup"`.
+	 * @note Change streams require a replica set or sharded cluster.
+	 * @note
+	 * A session view opens the stream with its session,
+	 * though a change stream cannot be opened inside a transaction.
+	 * @example
+	 * const stream = Users.watch({ attempts: 3 }, { fullDocument: "updateLookup" });
+	 * for await (const event of stream) {
+	 *     if (event.operationType === "update") console.log(event.fullDocument, event.changed);
+	 * }
+	 * // resume after the last event seen
+	 * const resumed = Users.watch({}, { resumeAfter: stream.resumeToken });
+	 */
+	watch(
+		filter?: Data | Query<z.infer<Schema>>,
+		options?: WatchOptions,
+	): ChangeStream<Schema, Instance> {
+		const encoded = filter instanceof Query ? filter.filter : encode(filter ?? {});
+		const pipeline =
+			Object.keys(encoded).length === 0 ? [] : [{ $match: documented(encoded) }];
+		return new ChangeStream(this, pipeline, this.#withSession(options));
+	}
+
+	/**
+	 * Creates an empty, typed query for models in this collection.
+	 * @return {Query<z.infer<Schema>>} A query matching every model, to narrow with conditions.
+	 * @note
+	 * Unlike `Data` filters, queries support comparison, membership and logical operators
+	 * on nested paths, and are accepted by every method taking a filter.
+	 * @example
+	 * const locked = await Users.findMany(Users.where().gte("attempts", 3));
+	 * const count = await Users.count(
+	 *     Users.where().or(
+	 *         Users.where().regex("email", /@neisan\.works$/),
+	 *         Users.where().exists("profile.name", false),
+	 *     ),
+	 * );
+	 */
+	where(): Query<z.infer<Schema>> {
+		return new Query();
+	}
+
+	/**
+	 * Creates a view of this collection bound to a client session.
+	 * Every operation run through the view, including relationship population
+	 * of the models it returns, is sent with the session.
+	 * @param session {mongo.ClientSession} The session to bind the view to.
+	 * @return {MongoCollection<Schema, Instance>} A session-bound view of this collection.
+	 * @note Prefer `client.transaction` over binding sessions manually.
+	 * @example
+	 * const session = client.startSession();
+	 * const SessionUsers = Users.withSession(session);
+	 */
+	withSession(session: mongo.ClientSession): MongoCollection<Schema, Instance> {
+		return new MongoCollection(this.#db, this.#params, session);
+	}
+
+	// the declared indexes of this collection: its uniques, then its indexes
+	#indexes(): Array<DeclaredIndex> {
+		const uniques = this.#uniques.map(({ index }) => index);
+		return [...uniques, ...(this.#params.indexes ?? []).map(declared)];
+	}
+
+	async #listIndexes(): Promise<Array<ListedIndex>> {
+		try {
+			return (await this.collection.listIndexes().toArray()) as Array<ListedIndex>;
+		} catch (error: any) {
+			// collections are created with their first document or index
+			if (error?.code === 26) return [];
+			throw error;
+		}
+	}
+
+	#withSession<T extends object>(options?: T): T & { session?: mongo.ClientSession } {
+		if (!this.session) return { ...options } as T;
+		return { ...options, session: this.session } as T & { session: mongo.ClientSession };
+	}
+
+	async #deleted(
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
+	): Promise<mongo.Filter<Data>> {
+		const compiled = compileSearch(this.schema, search);
+		if (compiled.exact) {
+			return { $and: [compiled.filter, { deletedAt: { $ne: null } }] };
+		}
+
+		const ids: Array<mongo.ObjectId> = [];
+		for await (const model of this.find(search, { withDeleted: true })) {
+			if ((model as Data).deletedAt) ids.push(model._id);
+		}
+		return { _id: { $in: ids } };
+	}
+
+	// the referrers of this collection, bound to its session
+	#bound(): Array<Referrer> {
+		return this.#referrers.map((referrer) => ({
+			...referrer,
+			collection: this.session
+				? referrer.collection.withSession(this.session)
+				: referrer.collection,
+		}));
+	}
+
+	// restrictions are checked through every cascade before any model is changed
+	async #restricted(
+		ids: Array<mongo.ObjectId>,
+		seen = new Set<string>(),
+	): Promise<DeleteFailure | null> {
+		for (const { collection, key, onDelete } of this.#bound()) {
+			// soft-deleted referrers neither restrict nor cascade
+			const filter = scoped({ [key]: { $in: ids } }, collection.softDelete);
+			if (
+				onDelete === "restrict" &&
+				(await collection.collection.findOne(
+					filter,
+					collection.#withSession({ projection: { _id: 1 } }),
+				))
+			) {
+				return this.#restrictFailure(collection.collectionName);
+			}
+			if (onDelete !== "cascade") continue;
+
+			// models reached twice, through cyclic relationships, are checked once
+			const cascaded: Array<mongo.ObjectId> = [];
+			const referring = collection.collection.find(
+				filter,
+				collection.#withSession({ projection: { _id: 1 } }),
+			);
+			for await (const { _id } of referring) {
+				const reference = `${collection.collectionName}:${_id.toHexString()}`;
+				if (seen.has(reference)) continue;
+				seen.add(reference);
+				cascaded.push(_id);
 			}
+			if (cascaded.length === 0) continue;
+			const failure = await collection.#restricted(cascaded, seen);
+			if (failure) return failure;
+		}
+		return null;
+	}
+
+	// the models are deleted in one transaction with the referential actions on their referrers,
+	// the transaction of the bound session if one is running
+	async #delete(
+		ids: Array<mongo.ObjectId>,
+		write: (collection: MongoCollection<Schema, Instance>) => Promise<number>,
+	): Promise<number | DeleteFailure> {
+		if (!this.#referrers.some(({ onDelete }) => onDelete !== "restrict")) {
+			return write(this);
+		}
+		if (this.session?.inTransaction()) {
+			return (await this.#cascade(ids)) ?? write(this);
+		}
+
+		let result!: number | DeleteFailure;
+		const unlink = async (collection: MongoCollection<Schema, Instance>) => {
+			result = (await collection.#cascade(ids)) ?? (await write(collection));
+			if (typeof result !== "number") await collection.session?.abortTransaction();
+		};
+		const session = this.session;
+		if (session) {
+			await session.withTransaction(() => unlink(this));
+		} else {
+			await transaction(this.#db.client, (tx) => unlink(tx.collection(this)));
+		}
+		return result;
+	}
+
+	async #cascade(ids: Array<mongo.ObjectId>): Promise<DeleteFailure | null> {
+		const bound = this.#bound();
+		// cascades run first, so no reference is unlinked when one of them fails
+		for (const { collection, key, onDelete } of bound) {
+			if (onDelete !== "cascade") continue;
+			const filter = new Query({ [key]: { $in: ids } });
+			const deleted = await collection.deleteMany(filter, { returnModels: false });
+			if (typeof deleted !== "number") return deleted;
+		}
+
+		for (const { collection, key, onDelete } of bound) {
+			if (onDelete !== "setNull") continue;
+			const filter = new Query({ [key]: { $in: ids } });
+			const unlinked = await collection.updateMany(
+				filter,
+				{ [key]: null },
+				{ returnModels: false },
+			);
+			const failure = unlinked.failed.at(0);
+			if (failure) return { acknowledged: false, errors: failure.errors };
+		}
+		return null;
+	}
+
+	async #hook(
+		hook: keyof CollectionHooks<Schema, Instance>,
+		model: Instance,
+		before?: Instance,
+	): Promise<SchemaError<Schema> | { general: string } | undefined> {
+		const method = (model as Data)[hook];
+		if (typeof method === "function") {
+			const errors = await method.call(model, before);
+			if (errors) return errors;
+		}
+
+		const callback = this.#params.hooks?.[hook] as
+			| ((...models: Array<Instance>) => HookResult<Schema>)
+			| undefined;
+		if (!callback) return undefined;
+		return (await (before ? callback(before, model) : callback(model))) ?? undefined;
+	}
+
+	#stamp(...fields: Array<"createdAt" | "updatedAt">): Data {
+		const timestamps = this.#timestamps;
+		if (!timestamps) return {};
+		const now = new Date();
+		return Object.fromEntries(fields.map((field) => [timestamps[field], now]));
+	}
+
+	#schemaVersion(): Data {
+		return this.#params.version === undefined ? {} : { __v: this.version };
+	}
+
+	#version(model?: Instance): { filter: Data; $inc: Data; stamp: Data } {
+		const key = this.#params.versionKey;
+		if (!key) return { filter: {}, $inc: {}, stamp: {} };
+		if (!model) return { filter: {}, $inc: { [key]: 1 }, stamp: { [key]: 0 } };
+
+		const version = (model as Data)[key];
+		const current = typeof version === "number" ? version : 0;
+		return {
+			// models written before versioning was enabled have no version
+			filter: { [key]: current === 0 ? { $in: [0, null] } : current },
+			$inc: { [key]: 1 },
+			stamp: { [key]: current + 1 },
+		};
+	}
+
+	async #stale(pending: Array<PendingUpdate<Instance>>): Promise<Set<string>> {
+		const key = this.#params.versionKey;
+		if (!key) return new Set();
+
+		const stored = await this.collection
+			.find(
+				{ _id: { $in: pending.map(({ model }) => model._id) } },
+				this.#withSession({ projection: { [key]: 1 } }),
+			)
+			.toArray();
+		const versions = new Map(
+			stored.map((document) => [document._id.toHexString(), document[key]]),
+		);
+		return new Set(
+			pending
+				.filter(
+					({ model }) => versions.get(model._id.toHexString()) !== (model as Data)[key],
+				)
+				.map(({ model }) => model._id.toHexString()),
+		);
+	}
+
+	#conflicted(result: UpdateResult<Schema, Instance>): boolean {
+		return (
+			!result.acknowledged &&
+			"general" in result.errors &&
+			result.errors.general === this.#conflictFailure().errors.general
+		);
+	}
+
+	#hooked(hook: keyof CollectionHooks<Schema, Instance>): boolean {
+		return (
+			typeof this.model.prototype[hook] === "function" ||
+			this.#params.hooks?.[hook] !== undefined
+		);
+	}
+
+	#throwTransient(error: unknown): void {
+		if (!this.session?.inTransaction()) return;
+		if (
+			error instanceof mongo.MongoError &&
+			(error.hasErrorLabel(mongo.MongoErrorLabel.TransientTransactionError) ||
+				error.hasErrorLabel(mongo.MongoErrorLabel.UnknownTransactionCommitResult))
+		) {
+			throw error;
+		}
+	}
 
-			return { acknowledged: true, model: new this.model(updated) };
-		} catch (error: any) {
-			if (error instanceof mongo.MongoServerError) {
-				if (error.code === 11000) {
-					const key = Object.keys(error.errorResponse.keyPattern).at(0) ?? "";
-					return this.#uniqueFailure(key);
-				}
-			}
-			return { acknowledged: false, errors: { general: "Failed to Update Record" } };
+	#duplicateKey(error: unknown): DuplicateKey | null {
+		if (error instanceof mongo.MongoBulkWriteError) {
+			const writeErrors = Array.isArray(error.writeErrors)
+				? error.writeErrors
+				: [error.writeErrors];
+			const duplicate = writeErrors.find((writeError) => writeError.code === 11000);
+			return duplicate ? this.#duplicateKey(duplicate) : null;
+		}
+		if (error instanceof mongo.MongoServerError) {
+			if (error.code !== 11000) return null;
+			return duplicated(error.errorResponse.keyPattern, error.message);
 		}
+		// the driver does not export `WriteError` at runtime, so its errors are matched by shape
+		const writeError = error as mongo.WriteError | null;
+		if (typeof writeError?.err === "object" && writeError.code === 11000) {
+			const { keyPattern } = writeError.err as mongo.BulkWriteOperationError & {
+				keyPattern?: Data;
+			};
+			return duplicated(keyPattern, writeError.errmsg);
+		}
+		return null;
 	}
 
 	#schemaFailure(failure: z.ZodError): {
@@ -1219,13 +3401,38 @@ class MongoCollection<
 		};
 	}
 
-	#uniqueFailure(key: keyof z.infer<Schema>): {
+	#conflictFailure(): {
+		acknowledged: false;
+		errors: { general: string };
+	} {
+		return {
+			acknowledged: false,
+			errors: { general: "Version conflict" },
+		};
+	}
+
+	#restrictFailure(referrer: string): DeleteFailure {
+		return {
+			acknowledged: false,
+			errors: { general: `Referenced By ${referrer}` },
+		};
+	}
+
+	#uniqueFailure({ index, keys }: DuplicateKey): {
 		acknowledged: false;
 		errors: SchemaError<Schema>;
 	} {
+		const constraint = this.#uniques.find((unique) =>
+			index === null ? same(unique.fields, keys) : unique.index.name === index,
+		);
+		// unique indexes not declared in `uniques` report the fields of their key
+		const fields = constraint?.fields ?? (keys.length > 0 ? keys : [index ?? ""]);
+		const message = constraint?.message ?? uniqueMessage(fields);
 		return {
 			acknowledged: false,
-			errors: { [key]: `${String(key)} must be unique` } as SchemaError<Schema>,
+			errors: Object.fromEntries(
+				fields.map((field) => [field, message]),
+			) as SchemaError<Schema>,
 		};
 	}
 }
@@ -1238,43 +3445,57 @@ class FindCursor<
 	private readonly collection: MongoCollection<Schema, Instance>;
 	private readonly cursor: mongo.FindCursor;
 	private readonly model: ModelConstructor<Schema, Instance>;
-	private readonly query: Partial<z.infer<Schema>>;
-	private readonly search?: Data | QueryPredicate<Schema, Instance> | undefined;
+	private readonly query: mongo.Filter<Data>;
+	private readonly exact: boolean;
+	private readonly search?:
+		| Data
+		| Query<z.infer<Schema>>
+		| QueryPredicate<Schema, Instance>
+		| undefined;
 	private readonly _limit: number;
 	private readonly _skip: number;
 	private skipped: number = 0;
 	private yielded: number = 0;
+	private buffered: Array<Instance> = [];
 	private readonly options?: FindOptions<Schema> | undefined;
 	private readonly transform?: ((model: Instance) => MaybePromise<T>) | undefined;
-	private readonly _populate: Array<keyof z.infer<Schema>>;
+	private readonly _populate: Array<Populate<Schema>>;
+	private readonly bound?: mongo.Filter<Data> | undefined;
 
 	constructor(
 		collection: MongoCollection<Schema, Instance>,
-		search?: Data | QueryPredicate<Schema, Instance>,
+		search?: Data | Query<z.infer<Schema>> | QueryPredicate<Schema, Instance>,
 		options?: FindOptions<Schema>,
 		transform?: (model: Instance) => MaybePromise<T>,
+		bound?: mongo.Filter<Data>,
 	) {
 		this.collection = collection;
-		this.query = typeof search === "object" ? encode(search) : {};
+		const compiled = compileSearch(collection.schema, search);
+		this.query = scoped(
+			bound ? { $and: [compiled.filter, bound] } : compiled.filter,
+			collection.softDelete,
+			options?.withDeleted,
+		);
+		this.bound = bound;
+		this.exact = compiled.exact;
 		this.search = search;
 
-		this._limit = options?.limit ?? Infinity;
-		this._skip = options?.skip ?? 0;
-		this._populate = !options?.populate
-			? []
-			: Array.isArray(options.populate)
-				? options.populate
-				: [options.populate];
+		const { withDeleted: _, limit, skip, populate, ...findOptions } = options ?? {};
+		// without a client-side predicate, the server pages the results itself
+		const paged = this.exact
+			? { ...(limit !== undefined && { limit }), ...(skip !== undefined && { skip }) }
+			: {};
+		this._limit = limit ?? Infinity;
+		this._skip = this.exact ? 0 : (skip ?? 0);
+		this._populate = !populate ? [] : Array.isArray(populate) ? populate : [populate];
 		this.options = options;
 
-		if (options) {
-			delete options.limit;
-			delete options.skip;
-			delete options.populate;
-		}
-
 		this.transform = transform;
-		this.cursor = collection.collection.find(this.query, options);
+		this.cursor = collection.collection.find(this.query, {
+			...findOptions,
+			...paged,
+			...(collection.session && { session: collection.session }),
+		});
 		this.model = collection.model;
 	}
 
@@ -1306,7 +3527,6 @@ class FindCursor<
 	 */
 	async *[Symbol.asyncIterator](): AsyncGenerator<T, void, unknown> {
 		while (true) {
-			if (this._skip > this.skipped) continue;
 			if (this.yielded >= this._limit) break;
 			const next: IteratorResult<T> = await this.next();
 			if (next.done) break;
@@ -1324,7 +3544,13 @@ class FindCursor<
 	 * const clone = cursor.clone()
 	 */
 	clone(): FindCursor<Schema, Instance, T> {
-		return new FindCursor(this.collection, this.search, this.options, this.transform);
+		return new FindCursor(
+			this.collection,
+			this.search,
+			this.options,
+			this.transform,
+			this.bound,
+		);
 	}
 
 	/**
@@ -1345,6 +3571,14 @@ class FindCursor<
 	 * const lockedUsers = await cursor.count();
 	 */
 	async count(): Promise<number> {
+		if (this.exact) {
+			const { skip, limit } = this.options ?? {};
+			return this.collection.collection.countDocuments(this.query, {
+				...(skip !== undefined && { skip }),
+				...(limit !== undefined && { limit }),
+				...(this.collection.session && { session: this.collection.session }),
+			});
+		}
 		let count: number = 0;
 		for await (const _ of this.clone()) {
 			count++;
@@ -1356,7 +3590,8 @@ class FindCursor<
 	 * @return {Promise<boolean>} Whether this cursor has a next IterableResult.
 	 */
 	async hasNext(): Promise<boolean> {
-		const clone = this.clone().skip(this.yielded);
+		if (this.yielded >= this._limit) return false;
+		const clone = this.clone().skip((this.options?.skip ?? 0) + this.yielded);
 		return !(await clone.next()).done;
 	}
 
@@ -1373,6 +3608,7 @@ class FindCursor<
 			this.search,
 			{ ...this.options, hint },
 			this.transform,
+			this.bound,
 		);
 	}
 
@@ -1389,6 +3625,7 @@ class FindCursor<
 			this.search,
 			{ ...this.options, limit },
 			this.transform,
+			this.bound,
 		);
 	}
 
@@ -1406,7 +3643,13 @@ class FindCursor<
 	map<R>(
 		transform: (model: Instance) => MaybePromise<R>,
 	): FindCursor<Schema, Instance, R> {
-		return new FindCursor(this.collection, this.search, this.options, transform);
+		return new FindCursor(
+			this.collection,
+			this.search,
+			this.options,
+			transform,
+			this.bound,
+		);
 	}
 
 	/**
@@ -1416,82 +3659,162 @@ class FindCursor<
 	 * @return {IteratorResult<T>} An IterableResult with T | undefined as the value.
 	 */
 	async next(): Promise<IteratorResult<T>> {
-		let next: Data | null = await this.cursor.next();
-		while (next !== null) {
-			if (this.yielded >= this._limit) break;
+		while (this.yielded < this._limit) {
+			const model = await this.pull();
+			if (model === null) break;
 
-			const data: HydratedData<Schema> = decode(next);
-			let value: Instance | T = new this.model(data);
-			if (typeof this.search === "function") {
-				if (await this.search(value)) {
-					if (this._populate.length) {
-						await Promise.all(
-							this._populate.map((key) => (value as Instance).populate(key)),
-						);
-					}
-					if (this.transform) value = await this.transform(value);
-					if (value === null) return { done: true, value: undefined };
+			if (this._skip > this.skipped) {
+				this.skipped++;
+				continue;
+			}
 
-					if (this._skip > this.skipped) {
-						this.skipped++;
-						continue;
-					}
+			const value = this.transform ? await this.transform(model) : model;
+			if (value === null) return { done: true, value: undefined };
 
-					this.yielded++;
+			this.yielded++;
 
-					return { done: false, value } as IteratorResult<T>;
-				} else {
-					next = await this.cursor.next();
-				}
-			} else {
-				if (this._populate.length) {
-					await Promise.all(
-						this._populate.map((key) => (value as Instance).populate(key)),
-					);
-				}
-				if (this.transform) value = await this.transform(value);
-				if (value === null) return { done: true, value: undefined };
+			return { done: false, value } as IteratorResult<T>;
+		}
+		await this.close();
+		return { done: true, value: undefined };
+	}
 
-				if (this._skip > this.skipped) {
-					this.skipped++;
-					continue;
-				}
+	private async match(): Promise<Instance | null> {
+		for (
+			let next = await this.cursor.next();
+			next !== null;
+			next = await this.cursor.next()
+		) {
+			const model = instantiate(
+				this.collection,
+				decode(next),
+				Boolean(this.options?.projection),
+			);
+			if (typeof this.search !== "function" || this.exact || (await this.search(model))) {
+				if (this.collection.writeUpgrades) await persist(this.collection, model);
+				return model;
+			}
+		}
+		return null;
+	}
 
-				this.yielded++;
+	private async pull(): Promise<Instance | null> {
+		if (!this._populate.length) return await this.match();
+		if (this.buffered.length) return this.buffered.shift() ?? null;
 
-				return { done: false, value } as IteratorResult<T>;
-			}
+		// relationships of a batch of models are populated together, rather than per model
+		const size = Math.min(
+			this.options?.batchSize ?? 100,
+			this._limit - this.yielded + this._skip - this.skipped,
+		);
+		while (this.buffered.length < size) {
+			const model = await this.match();
+			if (model === null) break;
+			this.buffered.push(model);
 		}
-		await this.close();
-		return { done: true, value: undefined };
+		await prefetch(this.buffered, this._populate, this.collection.session);
+		return this.buffered.shift() ?? null;
+	}
+
+	/**
+	 * Fetches a page of models, starting after or ending before the cursor of an edge.
+	 * @param pagination {PaginationOptions<Schema> | undefined} The cursors, size, and order of the page.
+	 * @return {Promise<Page<T>>} The models of the page, each with its cursor, and whether there are more pages.
+	 * @note
+	 * Pages are fetched with a range filter on the sort keys, rather than by skipping models,
+	 * so a page costs the same however far into the collection it is.
+	 * @note `sortBy` replaces the sort of this cursor, and its keys should not be `null` or missing.
+	 * @example
+	 * const page = await Users.find({ locked: false }).paginate({ first: 10, sortBy: { email: 1 } });
+	 * const next = await Users.find({ locked: false }).paginate({
+	 *     first: 10,
+	 *     after: page.pageInfo.endCursor,
+	 *     sortBy: { email: 1 },
+	 * });
+	 */
+	async paginate(pagination: PaginationOptions<Schema> = {}): Promise<Page<T>> {
+		const { after, before, first, last, sortBy } = pagination;
+		const backward = last !== undefined || (before !== undefined && first === undefined);
+		const size = (backward ? last : first) ?? 20;
+		const keys = Object.entries({ ...sortBy, _id: sortBy?._id ?? 1 }) as Array<SortKey>;
+
+		const bounds = [
+			...(after === undefined ? [] : [keyset(keys, after, 1)]),
+			...(before === undefined ? [] : [keyset(keys, before, -1)]),
+		];
+		// a backward page is fetched in reverse, from `before`
+		const sort = Object.fromEntries(
+			keys.map(([key, direction]) => [key, backward ? -direction : direction]),
+		) as mongo.Sort;
+		// the sort keys of selected models are fetched for their cursors
+		const projection = this.options?.projection && {
+			...this.options.projection,
+			...Object.fromEntries(keys.map(([key]) => [key, 1])),
+		};
+		const cursor = new FindCursor(
+			this.collection,
+			this.search,
+			{
+				...this.options,
+				sort,
+				limit: size + 1,
+				skip: 0,
+				...(projection && { projection }),
+			},
+			undefined,
+			bounds.length > 1 ? { $and: bounds } : bounds[0],
+		);
+		const models = (await cursor.toArray()) ?? [];
+		const more = models.length > size;
+		const page = models.slice(0, size);
+		if (backward) page.reverse();
+
+		const edges: Array<Edge<T>> = [];
+		for (const model of page) {
+			// the cursor is read before a transform, which may narrow the model
+			const mark = bookmark(model, keys);
+			const node = this.transform ? await this.transform(model) : model;
+			edges.push({ node, cursor: mark } as Edge<T>);
+		}
+		return {
+			edges,
+			pageInfo: {
+				hasNextPage: backward ? before !== undefined : more,
+				hasPreviousPage: backward ? more : after !== undefined,
+				startCursor: edges[0]?.cursor ?? null,
+				endCursor: edges.at(-1)?.cursor ?? null,
+			},
+		};
 	}
 
 	/**
 	 * Set the population of this cursor.
-	 * @param key The key of the relationship to populate.
+	 * @param path The key, dotted path, or per-path options of the relationship to populate.
 	 * @returns A new FindCursor that will yield models with the populated relationship.
+	 * @note Models are populated in batches, with one query per related collection per batch.
 	 * @example
 	 * const cursor = Posts.find().populate("author");
+	 * const nested = Comments.find().populate({ path: "author.avatar", select: ["url"] });
 	 */
-	populate<K extends keyof z.infer<Schema>>(key: K): FindCursor<Schema, Instance, T>;
+	populate(path: Populate<Schema>): FindCursor<Schema, Instance, T>;
 	/**
 	 * Set the population of this cursor.
-	 * @param keys The keys of the relationships to populate.
+	 * @param paths The keys, dotted paths, or per-path options of the relationships to populate.
 	 * @returns A new FindCursor that will yield models with the populated relationships.
+	 * @note Models are populated in batches, with one query per related collection per batch.
 	 * @example
-	 * const cursor = Posts.find().populate(["author", "comments"]);
+	 * const cursor = Posts.find().populate(["author", { path: "comments", limit: 10 }]);
 	 */
-	populate<K extends keyof z.infer<Schema>>(
-		keys: Array<K>,
-	): FindCursor<Schema, Instance, T>;
-	populate<K extends keyof z.infer<Schema>>(
-		populate: K | Array<K>,
+	populate(paths: Array<Populate<Schema>>): FindCursor<Schema, Instance, T>;
+	populate(
+		populate: Populate<Schema> | Array<Populate<Schema>>,
 	): FindCursor<Schema, Instance, T> {
 		return new FindCursor(
 			this.collection,
 			this.search,
 			{ ...this.options, populate },
 			this.transform,
+			this.bound,
 		);
 	}
 
@@ -1504,10 +3827,42 @@ class FindCursor<
 	 */
 	rewind(): void {
 		this.cursor.rewind();
+		this.buffered = [];
 		this.skipped = 0;
 		this.yielded = 0;
 	}
 
+	/**
+	 * Set the keys to fetch of the models of this cursor.
+	 * @param keys The keys of the models to fetch; `_id` is always fetched.
+	 * @returns A new FindCursor that will yield read-only models with only the selected keys,
+	 * or the results of the transform set on this cursor, which is passed the selected models.
+	 * @note Selected models are frozen, so assigning to them throws; update them through the collection.
+	 * @note
+	 * With a predicate evaluated client-side, no projection is sent: whole documents are fetched
+	 * to evaluate it, then narrowed to the selected keys.
+	 * @example
+	 * const users = await Users.find().select(["email", "attempts"]).toArray();
+	 */
+	select<K extends Extract<keyof z.infer<Schema>, string>>(
+		keys: Array<K>,
+	): FindCursor<Schema, Instance, [T] extends [Instance] ? Selected<Instance, K> : T> {
+		const projection = Object.fromEntries(keys.map((key) => [key, 1]));
+		const transform = this.transform;
+		return new FindCursor(
+			this.collection,
+			this.search,
+			this.exact ? { ...this.options, projection } : this.options,
+			(model) => {
+				const selected = narrow(model, keys);
+				return (transform ? transform(model) : selected) as MaybePromise<
+					[T] extends [Instance] ? Selected<Instance, K> : T
+				>;
+			},
+			this.bound,
+		);
+	}
+
 	/**
 	 * Set the skip for this cursor.
 	 * @param skip {number} The skip of this cursor query.
@@ -1518,6 +3873,7 @@ class FindCursor<
 			this.search,
 			{ ...this.options, skip },
 			this.transform,
+			this.bound,
 		);
 	}
 
@@ -1529,11 +3885,14 @@ class FindCursor<
 	 * @example
 	 * const cursor = BlogPosts.find().limit(10).sort({ views: -1 });
 	 */
-	sort(sort: SortParameters<Schema>): FindCursor<Schema, Instance> {
-		return new FindCursor(this.collection, this.search, {
-			...this.options,
-			sort: sort as mongo.Sort,
-		});
+	sort(sort: SortParameters<Schema>): FindCursor<Schema, Instance, T> {
+		return new FindCursor(
+			this.collection,
+			this.search,
+			{ ...this.options, sort: sort as mongo.Sort },
+			this.transform,
+			this.bound,
+		);
 	}
 
 	/**
@@ -1555,16 +3914,230 @@ class FindCursor<
 	}
 }
 
+export class ChangeStream<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+> {
+	private readonly collection: MongoCollection<Schema, Instance>;
+	private readonly stream: mongo.ChangeStream;
+
+	constructor(
+		collection: MongoCollection<Schema, Instance>,
+		pipeline: Array<Data>,
+		options?: WatchOptions,
+	) {
+		this.collection = collection;
+		this.stream = collection.collection.watch(pipeline, options);
+	}
+
+	/**
+	 * @return {boolean} Whether the change stream is closed.
+	 */
+	get closed(): boolean {
+		return this.stream.closed;
+	}
+
+	/**
+	 * The resume token of the last event, to resume the change stream after it.
+	 * @return {mongo.ResumeToken} The token to pass as `resumeAfter` or `startAfter`.
+	 * @example
+	 * const resumed = Users.watch({}, { resumeAfter: stream.resumeToken });
+	 */
+	get resumeToken(): mongo.ResumeToken {
+		return this.stream.resumeToken;
+	}
+
+	/**
+	 * An alias for {@link ChangeStream.close()}
+	 * @return {Promise<void>}
+	 * @experimental
+	 */
+	async [Symbol.asyncDispose](): Promise<void> {
+		await this.stream.close();
+	}
+
+	/**
+	 * @return {AsyncGenerator<ChangeEvent<Schema, Instance>, void, unknown>}
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<
+		ChangeEvent<Schema, Instance>,
+		void,
+		unknown
+	> {
+		while (!this.closed) {
+			const next = await this.next();
+			if (next === null) break;
+			yield next;
+		}
+	}
+
+	/**
+	 * Frees the server-side resources used by the change stream.
+	 * @example
+	 * const stream = Users.watch();
+	 * await stream.close();
+	 */
+	async close(): Promise<void> {
+		await this.stream.close();
+	}
+
+	/**
+	 * Waits for the next change to a model.
+	 * @return {Promise<ChangeEvent<Schema, Instance> | null>} The change event,
+	 * or `null` if the change stream is closed or invalidated.
+	 * @note Events other than insertions, updates, replacements, and deletions are skipped.
+	 */
+	async next(): Promise<ChangeEvent<Schema, Instance> | null> {
+		while (!this.closed) {
+			let change: mongo.ChangeStreamDocument;
+			try {
+				change = await this.stream.next();
+			} catch (error) {
+				if (this.closed) return null;
+				throw error;
+			}
+			if (change.operationType === "invalidate") {
+				await this.close();
+				return null;
+			}
+			const event = this.event(change);
+			if (event) return event;
+		}
+		return null;
+	}
+
+	private event(
+		change: mongo.ChangeStreamDocument,
+	): ChangeEvent<Schema, Instance> | null {
+		const base = {
+			_id: change._id,
+			...("clusterTime" in change &&
+				change.clusterTime && { clusterTime: change.clusterTime }),
+		};
+		switch (change.operationType) {
+			case "insert":
+			case "replace":
+				return {
+					...base,
+					operationType: change.operationType,
+					documentKey: change.documentKey,
+					fullDocument: instantiate(this.collection, decode(change.fullDocument)),
+				};
+			case "update": {
+				const { updatedFields, removedFields, truncatedArrays } =
+					change.updateDescription;
+				// dotted paths of nested and array updates are changes to their top-level key
+				const paths = [
+					...Object.keys(updatedFields ?? {}),
+					...(removedFields ?? []),
+					...(truncatedArrays ?? []).map(({ field }) => field),
+				];
+				const changed = new Set(paths.map((path) => path.split(".")[0] as string));
+				return {
+					...base,
+					operationType: "update",
+					documentKey: change.documentKey,
+					fullDocument: change.fullDocument
+						? instantiate(this.collection, decode(change.fullDocument))
+						: null,
+					changed: [...changed].filter(
+						(key): key is Extract<keyof z.infer<Schema>, string> =>
+							key in this.collection.schema.shape,
+					),
+					updateDescription: change.updateDescription,
+				};
+			}
+			case "delete":
+				return { ...base, operationType: "delete", documentKey: change.documentKey };
+			default:
+				return null;
+		}
+	}
+}
+
+export class Transaction {
+	readonly session!: mongo.ClientSession;
+
+	constructor(session: mongo.ClientSession) {
+		Object.defineProperty(this, "session", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: session,
+		});
+	}
+
+	/**
+	 * Aborts the transaction, discarding every write made through it.
+	 * @note The transaction callback resolves normally after an abort.
+	 * @example
+	 * await client.transaction(async (tx) => {
+	 *     const inserted = await tx.collection(Posts).insert({ title, author });
+	 *     if (!inserted.acknowledged) return tx.abort();
+	 * });
+	 */
+	async abort(): Promise<void> {
+		await this.session.abortTransaction();
+	}
+
+	/**
+	 * Retrieves a view of the collection bound to this transaction.
+	 * @param collection {MongoCollection<Schema, Instance>} The collection to bind.
+	 * @return {MongoCollection<Schema, Instance>} The transaction-bound view of the collection.
+	 * @example
+	 * await client.transaction(async (tx) => {
+	 *     const TxUsers = tx.collection(Users);
+	 *     await TxUsers.updateOne(id, (user) => {
+	 *         user.posts++;
+	 *     });
+	 * });
+	 */
+	collection<Schema extends z.ZodObject, Instance extends CollectionModel<Schema>>(
+		collection: MongoCollection<Schema, Instance>,
+	): MongoCollection<Schema, Instance> {
+		return collection.withSession(this.session);
+	}
+}
+
+async function transaction<T>(
+	client: mongo.MongoClient,
+	callback: (tx: Transaction) => Promise<T>,
+	options?: TransactionOptions,
+): Promise<T> {
+	return client.withSession((session) =>
+		session.withTransaction(() => callback(new Transaction(session)), options),
+	);
+}
+
+type MigrationRecord = { _id: string; appliedAt?: Date; lockedAt?: Date };
+// the record of the runner applying migrations, alongside the applied migrations
+const MIGRATION_LOCK = "$lock";
+
 class MongoDataBase {
+	private readonly _client!: mongo.MongoClient;
+	private readonly _collections!: Map<string, MongoCollection<any, any>>;
 	private readonly _db!: mongo.Db;
 
 	constructor(client: mongo.MongoClient, name: string, options?: mongo.DbOptions) {
+		Object.defineProperty(this, "_client", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: client,
+		});
 		Object.defineProperty(this, "_db", {
 			writable: false,
 			configurable: false,
 			enumerable: false,
 			value: client.db(name, options),
 		});
+		// the latest collection of each name, whose indexes are synced by `syncAllIndexes`
+		Object.defineProperty(this, "_collections", {
+			writable: false,
+			configurable: false,
+			enumerable: false,
+			value: new Map(),
+		});
 	}
 
 	get bsonOptions(): mongo.BSONSerializeOptions {
@@ -1607,10 +4180,21 @@ class MongoDataBase {
 		throw new Error("Method not implemented.");
 	}
 
-	collection<Schema extends z.ZodObject, Instance extends CollectionModel<Schema>>(
-		params: CollectionParameters<Schema, Instance>,
-	): MongoCollection<Schema, Instance> {
-		return new MongoCollection(this._db, params);
+	collection<
+		Schema extends z.ZodObject,
+		Instance extends CollectionModel<Schema>,
+		const Stamps extends TimestampOptions = false,
+	>(
+		params: CollectionParameters<Schema, Instance> & { timestamps?: Stamps },
+	): MongoCollection<Schema, Instance & Timestamps<Stamps>> {
+		// models are hydrated with the stamped fields of their documents
+		type Stamped = Instance & Timestamps<Stamps>;
+		const collection = new MongoCollection(
+			this._db,
+			params as CollectionParameters<Schema, any>,
+		) as MongoCollection<Schema, Stamped>;
+		this._collections.set(params.name, collection);
+		return collection;
 	}
 
 	async command(
@@ -1619,6 +4203,241 @@ class MongoDataBase {
 	) {
 		return this._db.command(command, options);
 	}
+
+	/**
+	 * Applies the migrations not yet applied to this database, in order.
+	 * @param migrations {Array<Migration>} Every migration of the database, oldest first.
+	 * @param options {MigrateOptions | undefined} Optional settings for the run.
+	 * @return {Promise<MigrationResult>} The steps run, or `errors` if another runner holds the lock
+	 * or a step throws.
+	 * @note
+	 * Applied migrations are recorded in the `_migrations` collection,
+	 * which also holds the lock preventing concurrent runners.
+	 * @note
+	 * With `dryRun`, the steps run in a transaction that is then aborted, and nothing is recorded.
+	 * Dry runs require a replica set or sharded cluster.
+	 * @note A step that throws stops the run with `errors`; the steps before it stay applied.
+	 * @example
+	 * const result = await db.migrate([
+	 *     {
+	 *         id: '2026-10-01-reset-attempts',
+	 *         async up({ collection }) {
+	 *             const updated = await collection(Users).updateMany({}, { attempts: 0 }, { returnModels: false });
+	 *             return updated.acknowledged ? updated.count : 0;
+	 *         },
+	 *     },
+	 * ], { dryRun: true });
+	 */
+	async migrate(
+		migrations: Array<Migration>,
+		options?: MigrateOptions,
+	): Promise<MigrationResult> {
+		return this.migration(options, (applied) =>
+			migrations
+				.filter(({ id }) => !applied.includes(id))
+				.map((migration) => ({ migration, direction: "up" })),
+		);
+	}
+
+	/**
+	 * Reverts the latest applied migrations of this database.
+	 * @param migrations {Array<Migration>} Every migration of the database, oldest first.
+	 * @param options {RollbackOptions | undefined} Optional settings for the run.
+	 * @return {Promise<MigrationResult>} The steps run, or `errors` if another runner holds the lock
+	 * or a migration to revert has no `down` script, or a step throws.
+	 * @note With `dryRun`, the steps run in a transaction that is then aborted, and nothing is recorded.
+	 * @example
+	 * const result = await db.rollback(migrations, { steps: 2 });
+	 */
+	async rollback(
+		migrations: Array<Migration>,
+		options?: RollbackOptions,
+	): Promise<MigrationResult> {
+		const steps = options?.steps ?? 1;
+		return this.migration(options, (applied) => {
+			const reverted = migrations
+				.filter(({ id }) => applied.includes(id))
+				.reverse()
+				.slice(0, steps);
+			const irreversible = reverted.find(({ down }) => !down);
+			if (irreversible) return `Migration ${irreversible.id} Is Irreversible`;
+			return reverted.map((migration) => ({ migration, direction: "down" }));
+		});
+	}
+
+	/**
+	 * Syncs the indexes of every collection of this database, one collection at a time.
+	 * @param options {SyncIndexesOptions | undefined} Whether to drop stale indexes, or only plan.
+	 * @return {Promise<SyncAllIndexesResult>} The result of each collection, by name,
+	 * and whether every collection was synced.
+	 * @note Of several collections with the same name, only the latest is synced.
+	 * @see {@link MongoCollection.syncIndexes}
+	 * @example
+	 * const synced = await db.syncAllIndexes({ dropStale: true });
+	 * if (!synced.acknowledged) console.log(synced.results);
+	 */
+	async syncAllIndexes(options?: SyncIndexesOptions): Promise<SyncAllIndexesResult> {
+		const results: Record<string, SyncIndexesResult> = {};
+		for (const [name, collection] of this._collections) {
+			results[name] = await collection.syncIndexes(options);
+		}
+		return {
+			acknowledged: Object.values(results).every(({ acknowledged }) => acknowledged),
+			results,
+		};
+	}
+
+	/**
+	 * Runs the callback inside a transaction, retrying it on transient errors.
+	 * @see {@link MongoClient.transaction}
+	 */
+	async transaction<T>(
+		callback: (tx: Transaction) => Promise<T>,
+		options?: TransactionOptions,
+	): Promise<T> {
+		return transaction(this._client, callback, options);
+	}
+
+	private async migration(
+		options: MigrateOptions | undefined,
+		plan: (
+			applied: Array<string>,
+		) => Array<{ migration: Migration; direction: MigrationStep["direction"] }> | string,
+	): Promise<MigrationResult> {
+		const { dryRun = false, lockTimeoutMS = 10 * 60 * 1000 } = options ?? {};
+		const ledger = this._db.collection<MigrationRecord>("_migrations");
+		const lockedAt = await this.lock(ledger, lockTimeoutMS);
+		if (!lockedAt) {
+			return { acknowledged: false, errors: { general: "Migrations Locked" }, steps: [] };
+		}
+		const release = this.hold(ledger, lockedAt, lockTimeoutMS);
+
+		try {
+			const records = await ledger.find({ appliedAt: { $exists: true } }).toArray();
+			const pending = plan(records.map(({ _id }) => _id));
+			if (typeof pending === "string") {
+				return { acknowledged: false, errors: { general: pending }, steps: [] };
+			}
+
+			const run = async (session?: mongo.ClientSession) => {
+				const context: MigrationContext = {
+					collection: (collection) =>
+						session ? collection.withSession(session) : collection,
+					...(session && { session }),
+					dryRun,
+				};
+				const tally = session && tallies.get(session);
+				const steps: Array<MigrationStep> = [];
+				for (const { migration, direction } of pending) {
+					const written = tally?.written ?? 0;
+					let touched: number | undefined;
+					try {
+						touched = await migration[direction]?.(context);
+					} catch {
+						return {
+							acknowledged: false as const,
+							errors: { general: `Migration ${migration.id} Failed` },
+							steps,
+						};
+					}
+					steps.push({
+						id: migration.id,
+						direction,
+						// dry runs count what the step wrote, rather than what it reports
+						touched: tally
+							? tally.written - written
+							: typeof touched === "number"
+								? touched
+								: null,
+					});
+					if (dryRun) continue;
+					if (direction === "up") {
+						await ledger.insertOne({ _id: migration.id, appliedAt: new Date() });
+					} else {
+						await ledger.deleteOne({ _id: migration.id });
+					}
+				}
+				return { acknowledged: true as const, steps };
+			};
+			if (!dryRun) return await run();
+
+			return await this._client.withSession(async (session) => {
+				tallies.set(session, { written: 0 });
+				session.startTransaction();
+				try {
+					return await run(session);
+				} finally {
+					// the transaction may already be aborted by the error that ended a step
+					if (session.inTransaction()) {
+						try {
+							await session.abortTransaction();
+						} catch {
+							// nothing a dry run wrote is committed either way
+						}
+					}
+				}
+			});
+		} finally {
+			await release();
+		}
+	}
+
+	// the lock is renewed while it is held, so it only goes stale once its runner stops
+	private hold(
+		ledger: mongo.Collection<MigrationRecord>,
+		lockedAt: Date,
+		timeoutMS: number,
+	): () => Promise<void> {
+		let current = lockedAt;
+		let renewing = Promise.resolve();
+		const renew = async () => {
+			const renewed = new Date();
+			try {
+				const result = await ledger.updateOne(
+					{ _id: MIGRATION_LOCK, lockedAt: current },
+					{ $set: { lockedAt: renewed } },
+				);
+				if (result.modifiedCount > 0) current = renewed;
+			} catch {
+				// a failed renewal is retried on the next interval
+			}
+		};
+		const timer = setInterval(
+			() => {
+				renewing = renewing.then(renew);
+			},
+			Math.max(timeoutMS / 3, 1),
+		);
+		timer.unref();
+
+		return async () => {
+			clearInterval(timer);
+			await renewing;
+			await ledger.deleteOne({ _id: MIGRATION_LOCK, lockedAt: current });
+		};
+	}
+
+	// the lock is taken when it is free or stale; otherwise, inserting it is a duplicate
+	private async lock(
+		ledger: mongo.Collection<MigrationRecord>,
+		timeoutMS: number,
+	): Promise<Date | null> {
+		const lockedAt = new Date();
+		try {
+			await ledger.updateOne(
+				{
+					_id: MIGRATION_LOCK,
+					lockedAt: { $lt: new Date(lockedAt.getTime() - timeoutMS) },
+				},
+				{ $set: { lockedAt } },
+				{ upsert: true },
+			);
+			return lockedAt;
+		} catch (error) {
+			if (error instanceof mongo.MongoServerError && error.code === 11000) return null;
+			throw error;
+		}
+	}
 }
 
 export class MongoClient {
@@ -1652,4 +4471,30 @@ export class MongoClient {
 	async close(): Promise<void> {
 		return await this._client.close();
 	}
+
+	/**
+	 * Runs the callback inside a transaction, retrying it on transient errors.
+	 * @param callback {(tx: Transaction) => Promise<T>} The operations to run atomically.
+	 * @param options {TransactionOptions | undefined} Optional settings for the transaction.
+	 * @return {Promise<T>} The value returned by the callback once the transaction commits.
+	 * @note
+	 * Only operations run through `tx.collection(...)` views are part of the transaction.
+	 * The callback may run more than once, so it should not have side effects outside of it.
+	 * @note
+	 * Operations inside a transaction must run sequentially, not with `Promise.all`.
+	 * @example
+	 * await client.transaction(async (tx) => {
+	 *     const post = await tx.collection(Posts).insert({ title, author: user._id });
+	 *     if (!post.acknowledged) return tx.abort();
+	 *     await tx.collection(Users).updateOne(user._id, (user) => {
+	 *         user.posts++;
+	 *     });
+	 * });
+	 */
+	async transaction<T>(
+		callback: (tx: Transaction) => Promise<T>,
+		options?: TransactionOptions,
+	): Promise<T> {
+		return transaction(this._client, callback, options);
+	}
 }
@@ -1,9 +1,27 @@
-import assert from "node:assert";
 import type mongo from "mongodb";
 import type z from "zod/v4";
 import { EnhancedMap } from "../data-structures.js";
-import type { Data, JSONData } from "../types.js";
-import type { ToManyRecord, ToOneRecord } from "./client.js";
+import type {
+	Data,
+	HookResult,
+	JSONData,
+	Populate,
+	PopulateOptions,
+	PopulatePath,
+} from "../types.js";
+import type { InverseRecord, ToManyRecord, ToOneRecord } from "./client.js";
+
+function accessor(target: object, key: string): PropertyDescriptor | undefined {
+	for (
+		let proto = Object.getPrototypeOf(target);
+		proto;
+		proto = Object.getPrototypeOf(proto)
+	) {
+		const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+		if (descriptor) return descriptor;
+	}
+	return undefined;
+}
 
 export abstract class Model<Schema extends z.ZodObject> {
 	[key: PropertyKey]: any;
@@ -11,35 +29,77 @@ export abstract class Model<Schema extends z.ZodObject> {
 
 	constructor() {
 		if ("__relationships__" in this && this.__relationships__ instanceof EnhancedMap) {
+			// each model holds its own relationships, copied from the template of its class
+			const relationships = new EnhancedMap<
+				string,
+				ToOneRecord<any, any> | ToManyRecord<any, any> | InverseRecord<any, any>
+			>();
+			for (const [key, record] of this.__relationships__) {
+				relationships.set(key, { relationship: record.relationship.clone() });
+			}
 			Object.defineProperty(this, "__relationships__", {
 				writable: false,
 				configurable: false,
 				enumerable: false,
-				value: this.__relationships__,
+				value: relationships,
 			});
-			assert("__relationships__" in this, "this.__relationships__ should be a property");
-			assert(
-				this.__relationships__ instanceof EnhancedMap,
-				"this.__relationships__ should be a MaEnhancedMapp",
-			);
-
-			for (const key of this.__relationships__.keys()) {
-				Object.defineProperty(
-					this,
-					key,
-					Object.getOwnPropertyDescriptor(Object.getPrototypeOf(this), key) ?? {},
-				);
+
+			for (const key of relationships.keys()) {
+				Object.defineProperty(this, key, accessor(this, key) ?? {});
 			}
 		}
 	}
 
+	/**
+	 * Called before this model is inserted; changes made to it are inserted.
+	 * @return {HookResult<Schema>} Nothing to continue, or an `errors` object to abort the insertion.
+	 * @note Runs before the `beforeInsert` hook of the collection.
+	 * @example
+	 * async beforeInsert(): Promise<undefined> {
+	 *     this.password = await hash(this.password);
+	 * }
+	 */
+	beforeInsert?(): HookResult<Schema>;
+	/**
+	 * Called after this model is inserted.
+	 * @return {HookResult<Schema>} Nothing, or an `errors` object to report with the model.
+	 */
+	afterInsert?(): HookResult<Schema>;
+	/**
+	 * Called on the validated, updated model before it is written; changes made to it are written.
+	 * @param before {this} The model as it is stored in the collection.
+	 * @return {HookResult<Schema>} Nothing to continue, or an `errors` object to abort the update.
+	 * @note Runs before the `beforeUpdate` hook of the collection.
+	 * @example
+	 * beforeUpdate(before: this) {
+	 *     if (before.email !== this.email) return { email: "Email cannot be changed" };
+	 * }
+	 */
+	beforeUpdate?(before: this): HookResult<Schema>;
+	/**
+	 * Called on the written model after an update.
+	 * @param before {this} The model as it was stored before the update.
+	 * @return {HookResult<Schema>} Nothing, or an `errors` object to report with the model.
+	 */
+	afterUpdate?(before: this): HookResult<Schema>;
+	/**
+	 * Called before this model is deleted.
+	 * @return {HookResult<Schema>} Nothing to continue, or an `errors` object to abort the deletion.
+	 */
+	beforeDelete?(): HookResult<Schema>;
+	/**
+	 * Called after this model is deleted.
+	 * @return {HookResult<Schema>} Nothing; returned errors are ignored.
+	 */
+	afterDelete?(): HookResult<Schema>;
+
 	protected hydrate(data: Data) {
 		Object.assign(this, data);
 	}
 
 	async populateToMany<K extends keyof z.infer<Schema>>(
 		key: K,
-		options?: mongo.FindOptions,
+		options?: PopulateOptions,
 	): Promise<Array<Exclude<this[K], mongo.ObjectId>>> {
 		if (!Array.isArray(this[key])) {
 			throw new Error(`Property ${key.toString()} is not an toMany relationship`);
@@ -56,7 +116,7 @@ export abstract class Model<Schema extends z.ZodObject> {
 		const record: ToManyRecord<any, any> = this.__relationships__.get(key);
 		if (record.models) return record.models;
 		if (!record.relationship._ids) return [];
-		const result = await record.relationship.populate(options);
+		const result = await record.relationship.populate(options, this.__session__);
 		record.models = result ?? [];
 		this.__relationships__.set(key, record);
 		return result ?? [];
@@ -65,6 +125,7 @@ export abstract class Model<Schema extends z.ZodObject> {
 	/**
 	 * Populate a relationship with the associated model, given the key.
 	 * @param key The key of the relationship to populate.
+	 * @param options Optional settings, such as the keys to `select` from the associated models.
 	 * @returns
 	 * A promise that resolves to the populated model if it exists,
 	 * or null if it does not.
@@ -75,19 +136,55 @@ export abstract class Model<Schema extends z.ZodObject> {
 	 */
 	async populate<K extends keyof z.infer<Schema>>(
 		key: K,
+		options?: PopulateOptions,
 	): Promise<Exclude<this[K], mongo.ObjectId> | null>;
+	/**
+	 * Populate a nested relationship, given the dotted path through the associated models.
+	 * @param path The dotted path of the relationship to populate.
+	 * @param options Optional settings for the last relationship of the path.
+	 * @returns A promise that resolves when every relationship of the path has been populated.
+	 * @example
+	 * const comment = await Comments.findOne(id)
+	 * await comment.populate("author.avatar", { select: ["url"] });
+	 * console.log(comment.author.avatar.url); // prints the url of the avatar of the author
+	 */
+	async populate(
+		path: `${Extract<keyof z.infer<Schema>, string>}.${string}`,
+		options?: PopulateOptions,
+	): Promise<undefined>;
+	/**
+	 * Populate a virtual relationship declared with `hasMany` or `hasOne`, given the key.
+	 * @param key The key of the virtual relationship to populate.
+	 * @param options Optional settings, such as the keys to `select` from the associated models.
+	 * @returns
+	 * A promise that resolves to the models referencing this model for `hasMany`,
+	 * or the model referencing this model, if any, for `hasOne`.
+	 * @example
+	 * const user = await Users.findOne(id)
+	 * const posts = await user.populate("posts");
+	 * console.log(posts.length); // prints the number of posts authored by the user
+	 */
+	async populate<K extends keyof this>(
+		key: K,
+		options?: PopulateOptions,
+	): Promise<this[K]>;
 	/**
 	 * Populate multiple relationships with the associated models, given the keys.
-	 * @param keys The keys of the relationships to populate.
+	 * @param keys The keys, dotted paths, or per-path options of the relationships to populate.
+	 * @param options Optional settings for keys and paths without options of their own.
 	 * @returns A promise that resolves when all relationships have been populated.
 	 * @example
 	 * const post = await Posts.findOne(id)
-	 * await post.populate(["author"]);
+	 * await post.populate(["author", { path: "comments", sort: { likes: -1 }, limit: 10 }]);
 	 * console.log(post.author.username); // prints the username of the author
 	 */
-	async populate<K extends keyof z.infer<Schema>>(keys: Array<K>): Promise<undefined>;
+	async populate(
+		keys: Array<Populate<Schema>>,
+		options?: PopulateOptions,
+	): Promise<undefined>;
 	async populate<K extends keyof z.infer<Schema>>(
-		keys: K | Array<K>,
+		keys: K | PopulatePath<Schema> | Array<Populate<Schema>>,
+		options?: PopulateOptions,
 	): Promise<Exclude<this[K], mongo.ObjectId> | null | undefined> {
 		if (
 			!("__relationships__" in this) ||
@@ -98,22 +195,135 @@ export abstract class Model<Schema extends z.ZodObject> {
 
 		if (Array.isArray(keys)) {
 			for (const key of keys) {
-				await this.populate(key);
+				if (typeof key === "object") {
+					const { path, ...rest } = key;
+					await this.populate(path as K, rest);
+				} else {
+					await this.populate(key as K, options);
+				}
 			}
 			return;
 		}
 
-		if (Array.isArray(this[keys])) return;
-		if (!this.__relationships__.has(keys)) return null;
-		const record: ToOneRecord<any, any> = this.__relationships__.get(keys);
+		if (typeof keys === "string" && keys.includes(".")) {
+			// intermediate relationships are populated whole, the last with the options
+			const [key, ...path] = keys.split(".");
+			const populated: unknown = await this.populate(key as K);
+			const related = Array.isArray(populated) ? populated : populated ? [populated] : [];
+			for (const model of related) {
+				if (model instanceof Model) await model.populate(path.join("."), options);
+			}
+			return;
+		}
+
+		const key = keys as K;
+		const inverse: InverseRecord<any, any> | undefined = this.__relationships__.get(key);
+		if (inverse && "foreignKey" in inverse.relationship) {
+			if (inverse.relationship.many) {
+				inverse.models ??= await inverse.relationship.populate(
+					this._id,
+					options,
+					this.__session__,
+				);
+				return inverse.models as Exclude<this[K], mongo.ObjectId>;
+			}
+			if (!inverse.model) {
+				const [model] = await inverse.relationship.populate(
+					this._id,
+					options,
+					this.__session__,
+				);
+				inverse.model = model ?? null;
+			}
+			return inverse.model;
+		}
+
+		if (Array.isArray(this[key])) {
+			return (await this.populateToMany(key, options)) as Exclude<
+				this[K],
+				mongo.ObjectId
+			>;
+		}
+		if (!this.__relationships__.has(key)) return null;
+		const record: ToOneRecord<any, any> = this.__relationships__.get(key);
 		if (record.model) return record.model;
 		if (!record.relationship._id) return null;
-		const result = await record.relationship.populate();
+		const result = await record.relationship.populate(options, this.__session__);
 		record.model = result;
-		this.__relationships__.set(keys, record);
+		this.__relationships__.set(key, record);
 		return result;
 	}
 
+	/**
+	 * Adds models or ids to a toMany relationship, given the key.
+	 * @param key The key of the relationship to add to.
+	 * @param values The models or ids to add; ids already in the relationship are skipped.
+	 * @note
+	 * Additions are written with `$addToSet` by `updateOne` and `updateMany`,
+	 * leaving concurrent additions to the same relationship intact.
+	 * @example
+	 * await Posts.updateOne(id, (post) => {
+	 *     post.push("tags", tag);
+	 * });
+	 */
+	push<K extends keyof z.infer<Schema>>(
+		key: K,
+		...values: Array<mongo.ObjectId | Model<any>>
+	): void {
+		const record = this.#toMany(key);
+		const ids = values.map((value) => (value instanceof Model ? value._id : value));
+		record.relationship.push(ids);
+
+		if (!record.models) return;
+		if (!values.every((value) => value instanceof Model)) {
+			delete record.models;
+			return;
+		}
+		const models = new Map(
+			[...record.models, ...values].map((model) => [model._id.toHexString(), model]),
+		);
+		record.models = record.relationship._ids.flatMap(
+			(id) => models.get(id.toHexString()) ?? [],
+		);
+	}
+
+	/**
+	 * Removes models or ids from a toMany relationship, given the key.
+	 * @param key The key of the relationship to remove from.
+	 * @param values The models or ids to remove.
+	 * @note
+	 * Removals are written with `$pull` by `updateOne` and `updateMany`,
+	 * leaving concurrent additions to the same relationship intact.
+	 * @example
+	 * await Posts.updateOne(id, (post) => {
+	 *     post.remove("tags", tag);
+	 * });
+	 */
+	remove<K extends keyof z.infer<Schema>>(
+		key: K,
+		...values: Array<mongo.ObjectId | Model<any>>
+	): void {
+		const record = this.#toMany(key);
+		const ids = values.map((value) => (value instanceof Model ? value._id : value));
+		record.relationship.remove(ids);
+
+		if (!record.models) return;
+		record.models = record.models.filter((model) =>
+			record.relationship._ids.some((id) => id.equals(model._id)),
+		);
+	}
+
+	#toMany(key: PropertyKey): ToManyRecord<any, any> {
+		const record =
+			"__relationships__" in this && this.__relationships__ instanceof EnhancedMap
+				? this.__relationships__.get(key)
+				: undefined;
+		if (!record || !("_ids" in record.relationship)) {
+			throw new Error(`Property ${key.toString()} is not an toMany relationship`);
+		}
+		return record;
+	}
+
 	/**
 	 * Returns a JSON representation of the model.
 	 * @note
@@ -126,7 +336,10 @@ export abstract class Model<Schema extends z.ZodObject> {
 	 */
 	toJSON(): JSONData<Schema> {
 		let record:
-			| EnhancedMap<string, ToOneRecord<any, any> | ToManyRecord<any, any>>
+			| EnhancedMap<
+					string,
+					ToOneRecord<any, any> | ToManyRecord<any, any> | InverseRecord<any, any>
+			  >
 			| undefined;
 		if ("__relationships__" in this && this.__relationships__ instanceof Map) {
 			record = this.__relationships__;
@@ -136,12 +349,14 @@ export abstract class Model<Schema extends z.ZodObject> {
 		for (const [key, value] of Object.entries(this)) {
 			if (record?.has(key)) {
 				const relationship = record.get(key)?.relationship;
+				// virtual relationships are not stored in the document
+				if (relationship && "foreignKey" in relationship) continue;
 				data[key] = !relationship
 					? null
 					: "_id" in relationship
 						? relationship._id
 						: "_ids" in relationship
-							? relationship._ids
+							? [...relationship._ids]
 							: null;
 				continue;
 			}
@@ -0,0 +1,152 @@
+import { expect, test } from "bun:test";
+import * as z from "zod/v4";
+import { compilePredicate } from "./predicate";
+
+const UserSchema = z.object({
+	email: z.email(),
+	attempts: z.number().default(0),
+	teams: z.set(z.number()).default(new Set()),
+	tags: z.array(z.string()).default([]),
+	profile: z.object({ name: z.string() }).optional(),
+	score: z.number().nullable().optional(),
+});
+
+test("Predicate Compilation", () => {
+	expect(compilePredicate((user) => user.attempts >= 3, UserSchema)).toEqual({
+		filter: { attempts: { $gte: 3 } },
+		exact: true,
+	});
+
+	expect(
+		compilePredicate(
+			(user) => 3 < user.attempts && user.email.startsWith("a.b"),
+			UserSchema,
+		),
+	).toEqual({
+		filter: { $and: [{ attempts: { $gt: 3 } }, { email: { $regex: "^a\\.b" } }] },
+		exact: true,
+	});
+
+	expect(
+		compilePredicate(
+			(user) => user.attempts === 1 || user.email.includes("@"),
+			UserSchema,
+		),
+	).toEqual({
+		filter: { $or: [{ attempts: { $eq: 1 } }, { email: { $regex: "@" } }] },
+		exact: true,
+	});
+
+	// anchored at the very end, so "a.b\n" does not end with "a.b", as in JavaScript
+	expect(compilePredicate((user) => user.email.endsWith("a.b"), UserSchema)).toEqual({
+		filter: { email: { $regex: "a\\.b\\z" } },
+		exact: true,
+	});
+	expect(
+		compilePredicate(
+			Object.assign(() => {}, {
+				toString: () => '(user) => user.email.endsWith("a\\n")',
+			}),
+			UserSchema,
+		),
+	).toEqual({ filter: { email: { $regex: "a\n\\z" } }, exact: true });
+
+	expect(compilePredicate((user) => user.teams.has(3), UserSchema)).toEqual({
+		filter: { "teams._JSSet": 3 },
+		exact: true,
+	});
+
+	expect(compilePredicate((user) => user.tags.includes("admin"), UserSchema)).toEqual({
+		filter: { tags: "admin" },
+		exact: true,
+	});
+
+	expect(compilePredicate((user) => ["a", "b"].includes(user.email), UserSchema)).toEqual(
+		{
+			filter: { email: { $in: ["a", "b"] } },
+			exact: true,
+		},
+	);
+
+	expect(
+		// biome-ignore lint/complexity/useArrowFunction: function expressions are compiled too
+		compilePredicate(function (user) {
+			return !user.profile?.name.startsWith("name");
+		}, UserSchema),
+	).toEqual({
+		filter: { $nor: [{ "profile.name": { $regex: "^name" } }] },
+		exact: true,
+	});
+});
+
+test("Predicate Compilation Fallback", () => {
+	const email = process.env.EMAIL ?? "email@email.com";
+
+	expect(
+		compilePredicate((user) => user.email === email && user.attempts > 2, UserSchema),
+	).toEqual({ filter: { attempts: { $gt: 2 } }, exact: false });
+
+	expect(
+		compilePredicate((user) => user.email === email || user.attempts > 2, UserSchema),
+	).toEqual({ filter: {}, exact: false });
+
+	expect(compilePredicate((user) => user.locked, UserSchema)).toEqual({
+		filter: {},
+		exact: false,
+	});
+
+	expect(compilePredicate(({ attempts }) => attempts > 2, UserSchema)).toEqual({
+		filter: {},
+		exact: false,
+	});
+
+	expect(compilePredicate((user) => user.attempts === "3", UserSchema)).toEqual({
+		filter: {},
+		exact: false,
+	});
+});
+
+test("Predicate Compilation Nulls", () => {
+	expect(compilePredicate((user) => user.score === null, UserSchema)).toEqual({
+		filter: { score: { $type: "null" } },
+		exact: true,
+	});
+
+	expect(compilePredicate((user) => user.score !== null, UserSchema)).toEqual({
+		filter: { score: { $not: { $type: "null" } } },
+		exact: true,
+	});
+
+	expect(compilePredicate((user) => user.score == null, UserSchema)).toEqual({
+		filter: { score: { $eq: null } },
+		exact: true,
+	});
+
+	expect(compilePredicate((user) => user.score < 3, UserSchema)).toEqual({
+		filter: {},
+		exact: false,
+	});
+
+	expect(compilePredicate((user) => [1, null].includes(user.score), UserSchema)).toEqual({
+		filter: {},
+		exact: false,
+	});
+});
+
+test("Predicate Compilation Escapes", () => {
+	// the runtime may normalize escapes when printing a function, so the source is given
+	const source = (text: string) => Object.assign(() => {}, { toString: () => text });
+
+	expect(
+		compilePredicate(source('(user) => user.email === "a\\tb\\u0041\\""'), UserSchema),
+	).toEqual({
+		filter: { email: { $eq: 'a\tbA"' } },
+		exact: true,
+	});
+
+	for (const sequence of ["\\x41", "\\u{41}", "\\0", "\\1", "\\u41"]) {
+		expect(
+			compilePredicate(source(`(user) => user.email === "${sequence}"`), UserSchema),
+		).toEqual({ filter: {}, exact: false });
+	}
+});
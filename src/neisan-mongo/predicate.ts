@@ -0,0 +1,547 @@
+import type mongo from "mongodb";
+import type z from "zod/v4";
+import type { Data } from "../types.js";
+
+export type CompiledPredicate = {
+	/** The server-side filter matching a superset of the models passing the predicate. */
+	filter: mongo.Filter<Data>;
+	/** Whether `filter` matches exactly the models passing the predicate. */
+	exact: boolean;
+};
+
+type FieldKind = "string" | "number" | "boolean" | "array" | "set" | "other";
+
+type Token =
+	| { kind: "identifier"; value: string }
+	| { kind: "literal"; value: string | number | boolean | null }
+	| { kind: "punctuator"; value: string };
+
+type Expression =
+	| { kind: "path"; path: Array<string> }
+	| { kind: "literal"; value: string | number | boolean | null }
+	| { kind: "array"; items: Array<Expression> }
+	| { kind: "binary"; operator: string; left: Expression; right: Expression }
+	| { kind: "not"; operand: Expression }
+	| { kind: "call"; callee: Expression; method: string; args: Array<Expression> }
+	| { kind: "unknown" };
+
+const PUNCTUATORS = [
+	"===",
+	"!==",
+	"=>",
+	"==",
+	"!=",
+	"<=",
+	">=",
+	"&&",
+	"||",
+	"?.",
+	"<",
+	">",
+	"!",
+	"(",
+	")",
+	"[",
+	"]",
+	"{",
+	"}",
+	",",
+	".",
+	";",
+	"-",
+];
+
+const COMPARISONS: Record<string, string> = {
+	"===": "$eq",
+	"==": "$eq",
+	"!==": "$ne",
+	"!=": "$ne",
+	"<": "$lt",
+	"<=": "$lte",
+	">": "$gt",
+	">=": "$gte",
+};
+
+const FLIPPED: Record<string, string> = {
+	"<": ">",
+	"<=": ">=",
+	">": "<",
+	">=": "<=",
+};
+
+const UNTRANSLATABLE: CompiledPredicate = { filter: {}, exact: false };
+
+class UntranslatableError extends Error {}
+
+/**
+ * Compiles a `QueryPredicate` into a MongoDB filter by parsing the predicate's source.
+ * Comparisons, `&&`, `||`, `!`, `startsWith`, `endsWith`, `includes` and `has` on
+ * schema fields against literal values are translated; anything else is left to
+ * client-side evaluation.
+ * @param predicate {QueryPredicate<Schema, Instance>} The predicate to compile.
+ * @param schema {z.ZodObject} The schema of the collection the predicate queries.
+ * @return {CompiledPredicate} The translated filter, and whether it is exact.
+ * @example
+ * compilePredicate((user) => user.attempts >= 3, UserSchema);
+ * // { filter: { attempts: { $gte: 3 } }, exact: true }
+ */
+export function compilePredicate(
+	predicate: (model: any) => unknown,
+	schema: z.ZodObject,
+): CompiledPredicate {
+	try {
+		const tokens = tokenize(predicate.toString());
+		const parser = new Parser(tokens);
+		const { parameter, body } = parser.function();
+		return translate(body, parameter, schema);
+	} catch (error) {
+		if (error instanceof UntranslatableError) return UNTRANSLATABLE;
+		throw error;
+	}
+}
+
+function tokenize(source: string): Array<Token> {
+	const tokens: Array<Token> = [];
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i] as string;
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		if (/[A-Za-z_$]/.test(char)) {
+			const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i)) as RegExpExecArray;
+			const word = match[0];
+			i += word.length;
+			if (word === "true" || word === "false") {
+				tokens.push({ kind: "literal", value: word === "true" });
+			} else if (word === "null") {
+				tokens.push({ kind: "literal", value: null });
+			} else {
+				tokens.push({ kind: "identifier", value: word });
+			}
+			continue;
+		}
+
+		if (/\d/.test(char) || (char === "." && /\d/.test(source[i + 1] ?? ""))) {
+			const match = /^(?:\d[\d_]*)?(?:\.\d+)?(?:e[+-]?\d+)?n?/i.exec(
+				source.slice(i),
+			) as RegExpExecArray;
+			const text = match[0];
+			// bigint literals are encoded differently than numbers
+			if (text.endsWith("n")) throw new UntranslatableError();
+			tokens.push({ kind: "literal", value: Number(text.replaceAll("_", "")) });
+			i += text.length;
+			continue;
+		}
+
+		if (char === '"' || char === "'" || char === "`") {
+			let value = "";
+			i++;
+			while (source[i] !== char) {
+				if (i >= source.length) throw new UntranslatableError();
+				if (char === "`" && source[i] === "$" && source[i + 1] === "{") {
+					throw new UntranslatableError();
+				}
+				if (source[i] === "\\") {
+					const sequence = escaped(source, i);
+					value += sequence.value;
+					i += sequence.length;
+					continue;
+				}
+				value += source[i];
+				i++;
+			}
+			i++;
+			tokens.push({ kind: "literal", value });
+			continue;
+		}
+
+		const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, i));
+		if (!punctuator) throw new UntranslatableError();
+		tokens.push({ kind: "punctuator", value: punctuator });
+		i += punctuator.length;
+	}
+	return tokens;
+}
+
+const ESCAPES: Record<string, string> = {
+	n: "\n",
+	t: "\t",
+	r: "\r",
+	b: "\b",
+	f: "\f",
+	v: "\v",
+};
+
+// decodes the escape sequence at index, refusing the ones that are not decoded here
+function escaped(source: string, index: number): { value: string; length: number } {
+	const char = source[index + 1] ?? "";
+	const simple = ESCAPES[char];
+	if (simple !== undefined) return { value: simple, length: 2 };
+
+	if (char === "u") {
+		const hex = source.slice(index + 2, index + 6);
+		if (!/^[\da-f]{4}$/i.test(hex)) throw new UntranslatableError();
+		return { value: String.fromCharCode(Number.parseInt(hex, 16)), length: 6 };
+	}
+
+	// \x, \0 and other digits, line continuations and other letters are left untranslated
+	if (char === "" || /[\dA-Za-z\n\r\u2028\u2029]/.test(char)) {
+		throw new UntranslatableError();
+	}
+	return { value: char, length: 2 };
+}
+
+class Parser {
+	private position = 0;
+
+	constructor(private readonly tokens: Array<Token>) {}
+
+	function(): { parameter: string; body: Expression } {
+		if (this.isIdentifier("async")) this.position++;
+
+		let parameter: string;
+		if (this.isIdentifier("function")) {
+			this.position++;
+			if (this.peek()?.kind === "identifier") this.position++;
+			parameter = this.parameter();
+			this.expect("{");
+			return { parameter, body: this.block() };
+		}
+
+		if (this.peek()?.kind === "identifier") {
+			parameter = this.identifier();
+		} else {
+			parameter = this.parameter();
+		}
+		this.expect("=>");
+
+		if (this.isPunctuator("{")) {
+			this.position++;
+			return { parameter, body: this.block() };
+		}
+		const body = this.or();
+		if (this.position !== this.tokens.length) throw new UntranslatableError();
+		return { parameter, body };
+	}
+
+	private block(): Expression {
+		if (!this.isIdentifier("return")) throw new UntranslatableError();
+		this.position++;
+		const body = this.or();
+		if (this.isPunctuator(";")) this.position++;
+		this.expect("}");
+		if (this.position !== this.tokens.length) throw new UntranslatableError();
+		return body;
+	}
+
+	private parameter(): string {
+		this.expect("(");
+		const parameter = this.identifier();
+		this.expect(")");
+		return parameter;
+	}
+
+	private or(): Expression {
+		let left = this.and();
+		while (this.isPunctuator("||")) {
+			this.position++;
+			left = { kind: "binary", operator: "||", left, right: this.and() };
+		}
+		return left;
+	}
+
+	private and(): Expression {
+		let left = this.comparison();
+		while (this.isPunctuator("&&")) {
+			this.position++;
+			left = { kind: "binary", operator: "&&", left, right: this.comparison() };
+		}
+		return left;
+	}
+
+	private comparison(): Expression {
+		const left = this.unary();
+		const token = this.peek();
+		if (token?.kind === "punctuator" && token.value in COMPARISONS) {
+			this.position++;
+			return { kind: "binary", operator: token.value, left, right: this.unary() };
+		}
+		return left;
+	}
+
+	private unary(): Expression {
+		if (this.isPunctuator("!")) {
+			this.position++;
+			return { kind: "not", operand: this.unary() };
+		}
+		if (this.isPunctuator("-")) {
+			this.position++;
+			const operand = this.unary();
+			if (operand.kind !== "literal" || typeof operand.value !== "number") {
+				throw new UntranslatableError();
+			}
+			return { kind: "literal", value: -operand.value };
+		}
+		return this.member();
+	}
+
+	private member(): Expression {
+		let expression = this.primary();
+		while (this.isPunctuator(".") || this.isPunctuator("?.")) {
+			this.position++;
+			const name = this.identifier();
+			if (this.isPunctuator("(")) {
+				this.position++;
+				const args: Array<Expression> = [];
+				while (!this.isPunctuator(")")) {
+					args.push(this.or());
+					if (this.isPunctuator(",")) this.position++;
+				}
+				this.position++;
+				expression = { kind: "call", callee: expression, method: name, args };
+			} else if (expression.kind === "path") {
+				expression = { kind: "path", path: [...expression.path, name] };
+			} else {
+				expression = { kind: "unknown" };
+			}
+		}
+		return expression;
+	}
+
+	private primary(): Expression {
+		const token = this.tokens[this.position++];
+		if (!token) throw new UntranslatableError();
+
+		if (token.kind === "literal") return { kind: "literal", value: token.value };
+		if (token.kind === "identifier") {
+			if (token.value === "undefined") throw new UntranslatableError();
+			return { kind: "path", path: [token.value] };
+		}
+		if (token.value === "(") {
+			const expression = this.or();
+			this.expect(")");
+			return expression;
+		}
+		if (token.value === "[") {
+			const items: Array<Expression> = [];
+			while (!this.isPunctuator("]")) {
+				items.push(this.or());
+				if (this.isPunctuator(",")) this.position++;
+			}
+			this.position++;
+			return { kind: "array", items };
+		}
+		throw new UntranslatableError();
+	}
+
+	private identifier(): string {
+		const token = this.tokens[this.position++];
+		if (token?.kind !== "identifier") throw new UntranslatableError();
+		return token.value;
+	}
+
+	private expect(punctuator: string): void {
+		if (!this.isPunctuator(punctuator)) throw new UntranslatableError();
+		this.position++;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.position];
+	}
+
+	private isPunctuator(value: string): boolean {
+		const token = this.peek();
+		return token?.kind === "punctuator" && token.value === value;
+	}
+
+	private isIdentifier(value: string): boolean {
+		const token = this.peek();
+		return token?.kind === "identifier" && token.value === value;
+	}
+}
+
+function translate(
+	expression: Expression,
+	parameter: string,
+	schema: z.ZodObject,
+): CompiledPredicate {
+	if (expression.kind === "binary" && expression.operator === "&&") {
+		const left = translate(expression.left, parameter, schema);
+		const right = translate(expression.right, parameter, schema);
+		const filters = [left, right]
+			.map(({ filter }) => filter)
+			.filter((filter) => Object.keys(filter).length > 0);
+		return {
+			filter: filters.length > 1 ? { $and: filters } : (filters.at(0) ?? {}),
+			exact: left.exact && right.exact,
+		};
+	}
+
+	if (expression.kind === "binary" && expression.operator === "||") {
+		const left = translate(expression.left, parameter, schema);
+		const right = translate(expression.right, parameter, schema);
+		// an inexact branch could match models its filter excludes
+		if (!left.exact || !right.exact) return UNTRANSLATABLE;
+		return { filter: { $or: [left.filter, right.filter] }, exact: true };
+	}
+
+	if (expression.kind === "not") {
+		const operand = translate(expression.operand, parameter, schema);
+		if (!operand.exact) return UNTRANSLATABLE;
+		return { filter: { $nor: [operand.filter] }, exact: true };
+	}
+
+	if (expression.kind === "binary") {
+		let { left, right, operator } = expression;
+		if (left.kind === "literal") {
+			[left, right] = [right, left];
+			operator = FLIPPED[operator] ?? operator;
+		}
+
+		const path = field(left, parameter);
+		if (path === null || right.kind !== "literal") return UNTRANSLATABLE;
+
+		const kind = kindOf(schema, path);
+		const value = right.value;
+		if (kind === undefined) return UNTRANSLATABLE;
+		if (value !== null && kind !== typeof value) return UNTRANSLATABLE;
+
+		const comparison = COMPARISONS[operator] as string;
+		if (value === null) {
+			// null in an array field matches the arrays containing null
+			if (kind === "array") return UNTRANSLATABLE;
+			switch (operator) {
+				// loosely, null and a missing field are equal in both
+				case "==":
+				case "!=":
+					return { filter: { [path]: { [comparison]: null } }, exact: true };
+				// strictly, a missing field is undefined rather than null
+				case "===":
+					return { filter: { [path]: { $type: "null" } }, exact: true };
+				case "!==":
+					return { filter: { [path]: { $not: { $type: "null" } } }, exact: true };
+				default:
+					return UNTRANSLATABLE;
+			}
+		}
+
+		// null is coerced to 0 by relational comparisons, but is not ordered with values in filters
+		if (!["$eq", "$ne"].includes(comparison) && nullable(schema, path)) {
+			return UNTRANSLATABLE;
+		}
+		return { filter: { [path]: { [comparison]: value } }, exact: true };
+	}
+
+	if (expression.kind === "call") {
+		const args = expression.args;
+		const path = field(expression.callee, parameter);
+
+		if (path === null) {
+			// ["a", "b"].includes(model.key)
+			const target = args.length === 1 && args[0] ? field(args[0], parameter) : null;
+			if (
+				expression.method !== "includes" ||
+				expression.callee.kind !== "array" ||
+				target === null
+			) {
+				return UNTRANSLATABLE;
+			}
+
+			const values: Array<unknown> = [];
+			const kind = kindOf(schema, target);
+			for (const item of expression.callee.items) {
+				if (item.kind !== "literal") return UNTRANSLATABLE;
+				// $in null also matches missing fields, which includes does not
+				if (typeof item.value !== kind) return UNTRANSLATABLE;
+				values.push(item.value);
+			}
+			return { filter: { [target]: { $in: values } }, exact: true };
+		}
+
+		const [arg] = args;
+		if (args.length !== 1 || arg?.kind !== "literal") return UNTRANSLATABLE;
+
+		const kind = kindOf(schema, path);
+		if (kind === "string" && typeof arg.value === "string") {
+			const pattern = escapeRegExp(arg.value);
+			switch (expression.method) {
+				case "startsWith":
+					return { filter: { [path]: { $regex: `^${pattern}` } }, exact: true };
+				case "endsWith":
+					// `$` also matches before a trailing newline on the server, unlike `\z`
+					return { filter: { [path]: { $regex: `${pattern}\\z` } }, exact: true };
+				case "includes":
+					return { filter: { [path]: { $regex: pattern } }, exact: true };
+			}
+		}
+
+		if (kind === "array" && expression.method === "includes") {
+			return { filter: { [path]: arg.value }, exact: true };
+		}
+
+		if (kind === "set" && expression.method === "has") {
+			return { filter: { [`${path}._JSSet`]: arg.value }, exact: true };
+		}
+	}
+
+	return UNTRANSLATABLE;
+}
+
+function field(expression: Expression, parameter: string): string | null {
+	if (expression.kind !== "path") return null;
+	const [root, ...path] = expression.path;
+	if (root !== parameter || path.length === 0) return null;
+	return path.join(".");
+}
+
+function kindOf(schema: z.ZodObject, path: string): FieldKind | undefined {
+	const current = fieldAt(schema, path);
+	if (current === undefined) return undefined;
+
+	const type: string = unwrap(current)._zod.def.type;
+	switch (type) {
+		case "string":
+		case "number":
+		case "boolean":
+		case "array":
+		case "set":
+			return type;
+		default:
+			return "other";
+	}
+}
+
+function nullable(schema: z.ZodObject, path: string): boolean {
+	let current = fieldAt(schema, path);
+	while (current?._zod.def.innerType) {
+		if (current._zod.def.type === "nullable") return true;
+		current = current._zod.def.innerType;
+	}
+	return false;
+}
+
+function fieldAt(schema: z.ZodObject, path: string): any {
+	let current: any = schema;
+	for (const key of path.split(".")) {
+		current = unwrap(current);
+		if (current?._zod.def.type !== "object") return undefined;
+		current = current._zod.def.shape[key];
+		if (current === undefined) return undefined;
+	}
+	return current;
+}
+
+function unwrap(schema: any): any {
+	while (schema?._zod.def.innerType) {
+		schema = schema._zod.def.innerType;
+	}
+	return schema;
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
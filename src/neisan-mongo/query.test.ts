@@ -0,0 +1,85 @@
+import { expect, test } from "bun:test";
+import * as z from "zod/v4";
+import { where } from "./query";
+
+const OrderSchema = z.object({
+	email: z.email(),
+	total: z.number(),
+	placed: z.date(),
+	tags: z.set(z.string()).default(new Set()),
+	items: z.array(z.object({ sku: z.string(), quantity: z.number() })),
+	shipping: z.object({ city: z.string() }).optional(),
+});
+type OrderSchema = typeof OrderSchema;
+
+test("Query Builder", () => {
+	const placed = new Date();
+
+	expect(where<OrderSchema>().eq("email", "email@email.com").filter).toEqual({
+		email: { $eq: "email@email.com" },
+	});
+
+	expect(where<OrderSchema>().gt("total", 10).lte("total", 100).filter).toEqual({
+		total: { $gt: 10, $lte: 100 },
+	});
+
+	expect(where<OrderSchema>().gte("placed", placed).filter).toEqual({
+		placed: { $gte: placed },
+	});
+
+	expect(where<OrderSchema>().eq("tags", new Set(["gift"])).filter).toEqual({
+		tags: { $eq: { _JSSet: ["gift"] } },
+	});
+
+	expect(where<OrderSchema>().in("shipping.city", ["Paris", "Rome"]).filter).toEqual({
+		"shipping.city": { $in: ["Paris", "Rome"] },
+	});
+
+	expect(
+		where<OrderSchema>()
+			.regex("email", /@email\.com$/)
+			.exists("shipping").filter,
+	).toEqual({
+		email: { $regex: /@email\.com$/ },
+		shipping: { $exists: true },
+	});
+
+	expect(
+		where<OrderSchema>().elemMatch("items", (item) =>
+			item.eq("sku", "A-1").gte("quantity", 2),
+		).filter,
+	).toEqual({ items: { $elemMatch: { sku: { $eq: "A-1" }, quantity: { $gte: 2 } } } });
+
+	expect(
+		where<OrderSchema>()
+			.or(where<OrderSchema>().gt("total", 100), where<OrderSchema>().exists("shipping"))
+			.or(where<OrderSchema>().eq("items.sku", "A-1")).filter,
+	).toEqual({
+		$or: [{ total: { $gt: 100 } }, { shipping: { $exists: true } }],
+		$and: [{ $or: [{ "items.sku": { $eq: "A-1" } }] }],
+	});
+
+	expect(
+		where<OrderSchema>().ne("total", 1).ne("total", 2).gt("total", 0).gt("total", 5)
+			.filter,
+	).toEqual({
+		total: { $ne: 1, $gt: 0 },
+		$and: [{ total: { $ne: 2 } }, { total: { $gt: 5 } }],
+	});
+
+	expect(
+		where<OrderSchema>()
+			.regex("email", /^a/)
+			.regex("email", /\.com$/)
+			.eq("email", "a@b.com")
+			.eq("email", "a@c.com").filter,
+	).toEqual({
+		email: { $regex: /^a/, $eq: "a@b.com" },
+		$and: [{ email: { $regex: /\.com$/ } }, { email: { $eq: "a@c.com" } }],
+	});
+
+	// @ts-expect-error `total` is a number
+	where<OrderSchema>().eq("total", "10");
+	// @ts-expect-error `missing` is not a path of the schema
+	where<OrderSchema>().exists("missing");
+});
@@ -0,0 +1,185 @@
+import type mongo from "mongodb";
+import type z from "zod/v4";
+import type { Data, DeepPath, DeepPathValue } from "../types.js";
+import { encode } from "../utils.js";
+
+type QueryElement<T> = T extends ReadonlyArray<infer E> ? NonNullable<E> : never;
+
+export class Query<T> {
+	readonly filter!: mongo.Filter<Data>;
+
+	constructor(filter: mongo.Filter<Data> = {}) {
+		Object.defineProperty(this, "filter", {
+			writable: false,
+			configurable: false,
+			enumerable: true,
+			value: filter,
+		});
+	}
+
+	/**
+	 * Matches models where the value at `path` equals `value`.
+	 * @example
+	 * const query = Users.where().eq("profile.name", "John");
+	 */
+	eq<P extends DeepPath<T>>(path: P, value: DeepPathValue<T, P>): Query<T> {
+		return this.#condition(path, "$eq", encode(value));
+	}
+
+	/**
+	 * Matches models where the value at `path` does not equal `value`.
+	 * @example
+	 * const query = Users.where().ne("attempts", 0);
+	 */
+	ne<P extends DeepPath<T>>(path: P, value: DeepPathValue<T, P>): Query<T> {
+		return this.#condition(path, "$ne", encode(value));
+	}
+
+	/**
+	 * Matches models where the value at `path` is greater than `value`.
+	 * @example
+	 * const query = Users.where().gt("attempts", 3);
+	 */
+	gt<P extends DeepPath<T>>(path: P, value: DeepPathValue<T, P>): Query<T> {
+		return this.#condition(path, "$gt", encode(value));
+	}
+
+	/**
+	 * Matches models where the value at `path` is greater than or equal to `value`.
+	 * @example
+	 * const query = Users.where().gte("attempts", 3);
+	 */
+	gte<P extends DeepPath<T>>(path: P, value: DeepPathValue<T, P>): Query<T> {
+		return this.#condition(path, "$gte", encode(value));
+	}
+
+	/**
+	 * Matches models where the value at `path` is less than `value`.
+	 * @example
+	 * const query = Users.where().lt("attempts", 3);
+	 */
+	lt<P extends DeepPath<T>>(path: P, value: DeepPathValue<T, P>): Query<T> {
+		return this.#condition(path, "$lt", encode(value));
+	}
+
+	/**
+	 * Matches models where the value at `path` is less than or equal to `value`.
+	 * @example
+	 * const query = Users.where().lte("attempts", 3);
+	 */
+	lte<P extends DeepPath<T>>(path: P, value: DeepPathValue<T, P>): Query<T> {
+		return this.#condition(path, "$lte", encode(value));
+	}
+
+	/**
+	 * Matches models where the value at `path` equals any of `values`.
+	 * @example
+	 * const query = Users.where().in("role", ["admin", "owner"]);
+	 */
+	in<P extends DeepPath<T>>(path: P, values: Array<DeepPathValue<T, P>>): Query<T> {
+		return this.#condition(path, "$in", values.map(encode));
+	}
+
+	/**
+	 * Matches models where the value at `path` equals none of `values`.
+	 * @example
+	 * const query = Users.where().nin("role", ["admin", "owner"]);
+	 */
+	nin<P extends DeepPath<T>>(path: P, values: Array<DeepPathValue<T, P>>): Query<T> {
+		return this.#condition(path, "$nin", values.map(encode));
+	}
+
+	/**
+	 * Matches models where the string at `path` matches `pattern`.
+	 * @example
+	 * const query = Users.where().regex("email", /@neisan\.works$/i);
+	 */
+	regex<P extends DeepPath<T>>(path: P, pattern: RegExp | string): Query<T> {
+		return this.#condition(path, "$regex", pattern);
+	}
+
+	/**
+	 * Matches models where `path` is (or, with `exists` as `false`, is not) present.
+	 * @example
+	 * const query = Users.where().exists("profile");
+	 */
+	exists<P extends DeepPath<T>>(path: P, exists: boolean = true): Query<T> {
+		return this.#condition(path, "$exists", exists);
+	}
+
+	/**
+	 * Matches models where at least one element of the array at `path` matches every
+	 * condition of the query built by `build`.
+	 * @example
+	 * const query = Orders.where().elemMatch("items", (item) =>
+	 *     item.eq("sku", "A-1").gte("quantity", 2),
+	 * );
+	 */
+	elemMatch<P extends DeepPath<T>>(
+		path: P,
+		build: (query: Query<QueryElement<NonNullable<DeepPathValue<T, P>>>>) => Query<any>,
+	): Query<T> {
+		return this.#condition(path, "$elemMatch", build(new Query()).filter);
+	}
+
+	/**
+	 * Matches models that match this query and every one of `queries`.
+	 * @example
+	 * const query = Users.where().and(
+	 *     Users.where().gte("attempts", 3),
+	 *     Users.where().exists("profile"),
+	 * );
+	 */
+	and(...queries: Array<Query<T>>): Query<T> {
+		return this.#merge({ $and: queries.map((query) => query.filter) });
+	}
+
+	/**
+	 * Matches models that match this query and at least one of `queries`.
+	 * @example
+	 * const query = Users.where().or(
+	 *     Users.where().gte("attempts", 3),
+	 *     Users.where().eq("email", "email@email.com"),
+	 * );
+	 */
+	or(...queries: Array<Query<T>>): Query<T> {
+		return this.#merge({ $or: queries.map((query) => query.filter) });
+	}
+
+	#condition(path: string, operator: string, value: unknown): Query<T> {
+		return this.#merge({ [path]: { [operator]: value } });
+	}
+
+	#merge(condition: Data): Query<T> {
+		const filter: Data = { ...this.filter };
+		for (const [key, value] of Object.entries(condition)) {
+			const existing = filter[key];
+			if (!(key in filter)) {
+				filter[key] = value;
+			} else if (
+				key.startsWith("$") ||
+				typeof existing !== "object" ||
+				existing === null ||
+				// a repeated operator on a path is another condition, rather than replacing the first
+				Object.keys(value as Data).some((operator) => operator in existing)
+			) {
+				const and = Array.isArray(filter.$and) ? filter.$and : [];
+				filter.$and = [...and, { [key]: value }];
+			} else {
+				filter[key] = { ...(existing as Data), ...(value as Data) };
+			}
+		}
+		return new Query(filter);
+	}
+}
+
+/**
+ * Creates an empty, typed query for models of `Schema`.
+ * @return {Query<z.infer<Schema>>} A query matching every model.
+ * @example
+ * const query = where<UserSchema>().gte("attempts", 3);
+ * const locked = await Users.findMany(query);
+ */
+export function where<Schema extends z.ZodObject>(): Query<z.infer<Schema>> {
+	return new Query();
+}
@@ -14,29 +14,54 @@ export type JoinPath<
 	K extends string | number,
 	P extends string | number = "",
 > = P extends "" ? K : `${P}.${K}`;
-export type DeepPath<T, P extends string | number = ""> = Exclude<
-	T extends Record<string | number, any>
-		? {
-				[K in keyof T]: K extends string | number
-					? T[K] extends Record<string | number, any> | undefined
-						? DeepPath<T[K], JoinPath<K, P>> | JoinPath<K, P>
-						: JoinPath<K, P>
-					: never;
-			}[keyof T]
-		: T extends string | number
-			? JoinPath<T, P>
-			: never,
-	undefined
->;
+type PathLeaf =
+	| string
+	| number
+	| bigint
+	| boolean
+	| symbol
+	| null
+	| undefined
+	| Date
+	| RegExp
+	| Uint8Array
+	| mongo.ObjectId
+	| Set<any>
+	| Map<any, any>
+	| ((...args: Array<any>) => any);
+type PathNode<V, P extends string | number> = 0 extends 1 & V
+	? never
+	: mongo.ObjectId extends V
+		? never
+		: V extends PathLeaf
+			? never
+			: V extends ReadonlyArray<infer E>
+				? PathNode<NonNullable<E>, P>
+				: DeepPath<V, P>;
+type PathElement<T> = T extends ReadonlyArray<infer E> ? E : T;
+
+export type DeepPath<T, P extends string | number = ""> = {
+	[K in keyof T & string]-?: JoinPath<K, P> | PathNode<NonNullable<T[K]>, JoinPath<K, P>>;
+}[keyof T & string];
 
 export type DeepPathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
 	? K extends keyof T
-		? DeepPathValue<T[K], Rest>
+		? DeepPathValue<PathElement<NonNullable<T[K]>>, Rest>
 		: never
 	: P extends keyof T
 		? T[P]
 		: never;
 
+// Relationship Types
+export type ReferentialAction = "cascade" | "setNull" | "restrict";
+export type RelationshipOptions = {
+	/**
+	 * What happens to models referencing a model when it is deleted:
+	 * deleted with it (`cascade`), unlinked (`setNull`), or keeping it from deletion (`restrict`).
+	 */
+	onDelete?: ReferentialAction;
+};
+
 // Model Types
 export type Data = Record<string, unknown>;
 export type JSONData<Schema extends z.ZodObject> = Prettier<
@@ -49,7 +74,7 @@ export type CollectionModel<Schema extends z.ZodObject> = Prettier<
 	z.infer<Schema> & {
 		_id: mongo.ObjectId;
 		toJSON(): z.infer<Schema>;
-		populate<K extends keyof z.infer<Schema>>(key: K): Promise<unknown | null>
+		populate<K extends keyof z.infer<Schema>>(key: K): Promise<unknown | null>;
 	}
 >;
 export type ModelConstructor<
@@ -66,10 +91,77 @@ export type CollectionParameters<
 		name: string;
 		schema: Schema;
 		model: ModelConstructor<Schema, Instance>;
-		uniques?: Array<string>;
-		indexes?: mongo.IndexSpecification;
+		/** The unique constraints, enforced by unique indexes. */
+		uniques?: Array<UniqueConstraint>;
+		/** The indexes to create, and keep in sync with `syncIndexes()`. */
+		indexes?: Array<IndexDefinition>;
+		hooks?: CollectionHooks<Schema, Instance>;
+		/** Whether deleting a model sets its `deletedAt` timestamp, rather than removing it. */
+		softDelete?: boolean;
+		/** Whether to stamp models on insert and update, optionally with custom field names. */
+		timestamps?: TimestampOptions;
+		/** The field holding the version of each model, checked and incremented on update. */
+		versionKey?: string;
+		/** The schema version stamped as `__v` on inserted documents. Defaults to `1`. */
+		version?: number;
+		/** The upgraders of older documents, where `upgraders[n - 1]` upgrades version `n`. */
+		upgraders?: Array<DocumentUpgrader>;
+		/** Whether documents upgraded when read are written back to the collection. */
+		writeUpgrades?: boolean;
 	}
 >;
+/** A unique field, fields unique together, or unique fields with options. */
+export type UniqueConstraint =
+	| string
+	| Array<string>
+	| {
+			fields: string | Array<string>;
+			/** The name of the index. Defaults to the fields, joined by `_`. */
+			name?: string;
+			/** Only documents matching the filter must be unique, e.g. `{ deletedAt: null }`. */
+			filter?: Data;
+			/** How values are compared, e.g. `{ locale: "en", strength: 2 }` to ignore case. */
+			collation?: mongo.CollationOptions;
+			/** The error of each field when the constraint is violated. */
+			message?: string;
+	  };
+/** Upgrades a decoded document by one schema version, returning the upgraded document. */
+export type DocumentUpgrader = (document: Data) => Data;
+export type TimestampOptions = boolean | { createdAt?: string; updatedAt?: string };
+export type Timestamps<Options extends TimestampOptions> = Options extends true
+	? { createdAt: Date; updatedAt: Date }
+	: Options extends { createdAt?: string; updatedAt?: string }
+		? Record<
+				Options extends { createdAt: infer K extends string } ? K : "createdAt",
+				Date
+			> &
+				Record<
+					Options extends { updatedAt: infer K extends string } ? K : "updatedAt",
+					Date
+				>
+		: unknown;
+export type HookResult<Schema extends z.ZodObject> =
+	| Promise<SchemaError<Schema> | { general: string } | undefined>
+	| SchemaError<Schema>
+	| { general: string }
+	| undefined;
+export type CollectionHooks<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+> = {
+	/** Called with the validated model before it is inserted; changes to it are inserted. */
+	beforeInsert?: (model: Instance) => HookResult<Schema>;
+	/** Called with the model after it is inserted. */
+	afterInsert?: (model: Instance) => HookResult<Schema>;
+	/** Called with the stored and validated updated models; changes to `after` are written. */
+	beforeUpdate?: (before: Instance, after: Instance) => HookResult<Schema>;
+	/** Called with the previously stored and the written models after an update. */
+	afterUpdate?: (before: Instance, after: Instance) => HookResult<Schema>;
+	/** Called with the model before it is deleted. */
+	beforeDelete?: (model: Instance) => HookResult<Schema>;
+	/** Called with the model after it is deleted. */
+	afterDelete?: (model: Instance) => HookResult<Schema>;
+};
 export type SchemaError<Schema extends z.ZodObject> = Partial<
 	Record<keyof z.infer<Schema>, string>
 >;
@@ -87,7 +179,19 @@ export type InsertResult<
 	| {
 			model: Instance;
 			acknowledged: true;
+			/** The errors returned by the after hooks, once the model was written. */
+			errors?: SchemaError<Schema> | { general: string };
 	  };
+export type InsertManyResult<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+> = {
+	/** Whether every record was inserted. */
+	acknowledged: boolean;
+	insertedCount: number;
+	/** The result of each record, at the index it was passed at. */
+	results: Array<InsertResult<Schema, Instance>>;
+};
 export type UpdateResult<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
@@ -99,8 +203,10 @@ export type UpdateResult<
 	| {
 			model: Instance;
 			acknowledged: true;
+			/** The errors returned by the after hooks, once the model was written. */
+			errors?: SchemaError<Schema> | { general: string };
 	  };
-export type UpdateManyResult<
+export type UpsertResult<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
 > =
@@ -109,9 +215,74 @@ export type UpdateManyResult<
 			errors: SchemaError<Schema> | { general: string };
 	  }
 	| {
-			models: Array<Instance>;
+			model: Instance;
 			acknowledged: true;
+			/** Whether the model was inserted, rather than an existing model updated. */
+			inserted: boolean;
+			/** The errors returned by the after hooks, once the model was written. */
+			errors?: SchemaError<Schema> | { general: string };
 	  };
+export type UpdateOneOptions = Prettier<
+	mongo.FindOneAndUpdateOptions & {
+		/** The number of times to retry the update on a version conflict. Defaults to `0`. */
+		retries?: number;
+	}
+>;
+export type BulkOptions = Prettier<
+	mongo.BulkWriteOptions & {
+		/** The number of documents written per `bulkWrite` call. Defaults to `1000`. */
+		batchSize?: number;
+		/** Whether to return the affected models, or only their count. Defaults to `true`. */
+		returnModels?: boolean;
+	}
+>;
+export type DeleteFailure<Schema extends z.ZodObject = z.ZodObject> = {
+	acknowledged: false;
+	errors: SchemaError<Schema> | { general: string };
+};
+export type DeleteManyResult<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+	Options extends BulkOptions = BulkOptions,
+> = Options extends { returnModels: false }
+	? number | DeleteFailure<Schema>
+	: Array<Instance> | DeleteFailure<Schema> | null;
+export type UpdateManyOptions = Prettier<
+	BulkOptions & {
+		/** Whether to run every update in a transaction, rolled back on the first failure. */
+		atomic?: boolean;
+	}
+>;
+export type UpdateManyFailure<Schema extends z.ZodObject> = {
+	_id: mongo.ObjectId;
+	errors: SchemaError<Schema> | { general: string };
+};
+export type UpdateManyResult<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+	Options extends BulkOptions = BulkOptions,
+> = (
+	| {
+			acknowledged: false;
+			errors: SchemaError<Schema> | { general: string };
+	  }
+	| (Options extends { returnModels: false }
+			? {
+					count: number;
+					acknowledged: true;
+				}
+			: {
+					models: Array<Instance>;
+					acknowledged: true;
+				})
+) & {
+	/** The ids of the models written to the collection. */
+	updated: Array<mongo.ObjectId>;
+	/** The ids of the models that failed validation or were rejected by the collection. */
+	failed: Array<UpdateManyFailure<Schema>>;
+	/** The errors returned by the after hooks of updated models, which stay written. */
+	reported?: Array<UpdateManyFailure<Schema>>;
+};
 export type ModelUpdater<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
@@ -120,16 +291,40 @@ export type QueryPredicate<
 	Schema extends z.ZodObject,
 	Instance extends CollectionModel<Schema>,
 > = (model: Instance) => boolean | Promise<boolean>;
-export type FindOneOptions<Schema extends z.ZodObject> = Prettier<
-	mongo.FindOneOptions & {
-		populate?: Array<keyof z.infer<Schema>> | keyof z.infer<Schema>;
+export type SoftDeleteOptions = {
+	/** Whether to include soft-deleted models. Defaults to `false`. */
+	withDeleted?: boolean;
+};
+export type PopulateOptions = Prettier<
+	SoftDeleteOptions & {
+		/** The keys of the related models to load; `_id` is always loaded. */
+		select?: Array<string>;
+		/** The order of the related models of a toMany relationship. */
+		sort?: Record<string, -1 | 1>;
+		/** The maximum number of related models of a toMany relationship. */
+		limit?: number;
 	}
 >;
+export type PopulatePath<Schema extends z.ZodObject> =
+	| keyof z.infer<Schema>
+	| `${Extract<keyof z.infer<Schema>, string>}.${string}`;
+export type Populate<Schema extends z.ZodObject> =
+	| PopulatePath<Schema>
+	| Prettier<PopulateOptions & { path: PopulatePath<Schema> }>;
+export type FindOneOptions<Schema extends z.ZodObject> = Prettier<
+	mongo.FindOneOptions &
+		SoftDeleteOptions & {
+			populate?: Array<Populate<Schema>> | Populate<Schema>;
+		}
+>;
 export type FindOptions<Schema extends z.ZodObject> = Prettier<
-	mongo.FindOptions & {
-		populate?: Array<keyof z.infer<Schema>> | keyof z.infer<Schema>;
-	}
+	mongo.FindOptions &
+		SoftDeleteOptions & {
+			populate?: Array<Populate<Schema>> | Populate<Schema>;
+		}
 >;
+export type ExistsOptions = Prettier<mongo.FindOneOptions & SoftDeleteOptions>;
+export type AggregateOptions = Prettier<mongo.AggregateOptions & SoftDeleteOptions>;
 
 // Cursor Types
 export type CursorCloseOptions = { timeoutMS?: number };
@@ -139,4 +334,144 @@ export type SortParameters<Schema extends z.ZodObject> = {
 export type Index<Schema extends z.ZodObject> = {
 	[key in keyof z.infer<Schema>]?: -1 | 1;
 };
-export type CountOptions = Prettier<mongo.CountDocumentsOptions & mongo.Abortable>;
+export type CountOptions = Prettier<
+	mongo.CountDocumentsOptions & mongo.Abortable & SoftDeleteOptions
+>;
+export type PaginationOptions<Schema extends z.ZodObject> = {
+	/** The cursor of the edge the page starts after. */
+	after?: string;
+	/** The cursor of the edge the page ends before. */
+	before?: string;
+	/** The number of models from the start of the page. Defaults to `20`. */
+	first?: number;
+	/** The number of models from the end of the page; pages backward from `before`. */
+	last?: number;
+	/** The order of the pages, by paths of the models; `_id` breaks ties. Defaults to `{ _id: 1 }`. */
+	sortBy?: { [P in DeepPath<z.infer<Schema>>]?: -1 | 1 } & { _id?: -1 | 1 };
+};
+export type PaginateOptions<Schema extends z.ZodObject> = Prettier<
+	Omit<FindOptions<Schema>, "limit" | "skip" | "sort"> & PaginationOptions<Schema>
+>;
+/** A read-only model holding only the selected keys, and its `_id`. */
+export type Selected<Instance, K extends PropertyKey> = Readonly<
+	Pick<Instance, Extract<K | "_id", keyof Instance>>
+>;
+export type Edge<T> = { node: T; cursor: string };
+export type PageInfo = {
+	hasNextPage: boolean;
+	hasPreviousPage: boolean;
+	startCursor: string | null;
+	endCursor: string | null;
+};
+export type Page<T> = { edges: Array<Edge<T>>; pageInfo: PageInfo };
+
+// Change Stream Types
+export type WatchOptions = Prettier<mongo.ChangeStreamOptions>;
+type ChangeBase = {
+	/** The resume token of the event, to pass as `resumeAfter` or `startAfter`. */
+	_id: mongo.ResumeToken;
+	documentKey: { _id: mongo.ObjectId };
+	clusterTime?: mongo.Timestamp;
+};
+export type ChangeEvent<
+	Schema extends z.ZodObject,
+	Instance extends CollectionModel<Schema>,
+> =
+	| Prettier<ChangeBase & { operationType: "insert" | "replace"; fullDocument: Instance }>
+	| Prettier<
+			ChangeBase & {
+				operationType: "update";
+				/** The updated model, with `fullDocument: "updateLookup"`; otherwise `null`. */
+				fullDocument: Instance | null;
+				/** The schema keys of the updated and removed paths. */
+				changed: Array<Extract<keyof z.infer<Schema>, string>>;
+				updateDescription: mongo.UpdateDescription;
+			}
+	  >
+	| Prettier<ChangeBase & { operationType: "delete" }>;
+
+// Migration Types
+export type MigrateOptions = {
+	/** Whether to run the steps in a transaction that is aborted, to report what they touch. */
+	dryRun?: boolean;
+	/**
+	 * How long the lock of a runner that stopped renewing it is respected, in milliseconds.
+	 * Defaults to 10 minutes.
+	 */
+	lockTimeoutMS?: number;
+};
+export type RollbackOptions = Prettier<
+	MigrateOptions & {
+		/** The number of applied migrations to revert, latest first. Defaults to `1`. */
+		steps?: number;
+	}
+>;
+export type MigrationContext = {
+	/** Binds the collection to the migration, so that dry runs are rolled back. */
+	collection<
+		Collection extends { withSession(session: mongo.ClientSession): Collection },
+	>(collection: Collection): Collection;
+	/** The session of a dry run, to pass to driver calls on `collection.collection`. */
+	session?: mongo.ClientSession;
+	dryRun: boolean;
+};
+export type Migration = {
+	/** The unique, stable identifier of the migration, recorded once it is applied. */
+	id: string;
+	/** Applies the migration, optionally returning the number of documents touched. */
+	up(context: MigrationContext): Promise<number | undefined>;
+	/** Reverts the migration, optionally returning the number of documents touched. */
+	down?(context: MigrationContext): Promise<number | undefined>;
+};
+export type MigrationStep = {
+	id: string;
+	direction: "up" | "down";
+	/**
+	 * The number of documents the step reported touching, or `null` if it did not report;
+	 * in dry runs, the number of documents it wrote through `collection(...)`.
+	 */
+	touched: number | null;
+};
+export type MigrationResult =
+	| { acknowledged: true; steps: Array<MigrationStep> }
+	| { acknowledged: false; errors: { general: string }; steps: Array<MigrationStep> };
+
+// Index Types
+/** The key(s) and direction(s) of an index, or its `key` with index options. */
+export type IndexDefinition =
+	| { [key: string]: mongo.IndexDirection }
+	| Prettier<
+			Omit<mongo.IndexDescription, "key"> & {
+				key: { [key: string]: mongo.IndexDirection };
+			}
+	  >;
+export type SyncIndexesOptions = {
+	/** Whether to drop indexes that are not declared, or differ from the declared index. */
+	dropStale?: boolean;
+	/** Whether to only report the plan, without creating or dropping indexes. */
+	dryRun?: boolean;
+};
+export type IndexPlan = {
+	/** The declared indexes missing from the collection. */
+	created: Array<string>;
+	/** The stale indexes dropped, with `dropStale`. */
+	dropped: Array<string>;
+	/** The stale indexes kept, without `dropStale`; declared indexes they conflict with are not created. */
+	stale: Array<string>;
+	/** The declared indexes already on the collection. */
+	unchanged: Array<string>;
+};
+export type SyncIndexesResult =
+	| Prettier<{ acknowledged: true } & IndexPlan>
+	| Prettier<{ acknowledged: false; errors: { general: string } } & IndexPlan>;
+export type SyncAllIndexesResult = {
+	/** Whether the indexes of every collection were synced. */
+	acknowledged: boolean;
+	/** The result of each collection, by name. */
+	results: Record<string, SyncIndexesResult>;
+};
+
+// Transaction Types
+export type TransactionOptions = Prettier<
+	mongo.TransactionOptions & { timeoutMS?: number }
+>;